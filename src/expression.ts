@@ -0,0 +1,488 @@
+import * as Parser from './parser';
+import * as Op from './operators';
+import { Value, ValueMode } from './value';
+
+// Named constants that can be used in expressions and chosen from the input operand list
+export const constants = new Map<string, Value>([
+    ['e', Value.scalar(Math.E)],
+    ['epsilon', Value.scalar(1.0 / 8388608)], // 32-bit floating point epsilon, 2^-23
+    ['pi', Value.scalar(Math.PI)],
+    ['sqrt2', Value.scalar(Math.sqrt(2))],
+    ['sqrt3', Value.scalar(Math.sqrt(3))],
+    ['i', new Value([1, 0, 0])],
+    ['j', new Value([0, 1, 0])],
+    ['k', new Value([0, 0, 1])]
+]);
+
+// Functions that can be called by name in expressions, eg. normalize((1, 2, 3)) or cross(i, j), and applied to selections.
+// The number of arguments each one takes is the number of parameters of the function.
+export const functions = new Map<string, (...args: Value[]) => Value>([
+    // Unary
+    ['square', Op.square],
+    ['sqrt', Op.sqrt],
+    ['reciprocal', Op.reciprocal],
+    ['negate', Op.negate],
+    ['abs', Op.abs],
+    ['sin', Op.sin],
+    ['cos', Op.cos],
+    ['tan', Op.tan],
+    ['asin', Op.asin],
+    ['acos', Op.acos],
+    ['atan', Op.atan],
+    ['log', Op.log],
+    ['exp', Op.exp],
+    ['exp2', Op.exp2],
+    ['rad2deg', Op.rad2deg],
+    ['deg2rad', Op.deg2rad],
+    ['length', Op.magnitude],
+    ['normalize', Op.normalize],
+    ['xyz', Op.xyz],
+    ['rotation', Op.quaternionToMatrix],
+    ['transpose', Op.transpose],
+    ['determinant', Op.determinant],
+    ['inverse', Op.inverse],
+    ['trace', Op.trace],
+    ['rank', Op.rank],
+    ['identity', Op.identity],
+    ['asFloat16', Op.asFloat16],
+    ['asFloat32', Op.asFloat32],
+    ['asFloat64', Op.asFloat64],
+    ['floatBits16', Op.floatBits16],
+    ['floatBits32', Op.floatBits32],
+    ['floatBits64', Op.floatBits64],
+    ['affineInverse', Op.affineInverse],
+    ['translation', Op.translation],
+    ['scale', Op.scale],
+    ['conjugate', Op.conjugate],
+    ['quatInverse', Op.quaternionInverse],
+    ['quaternion', Op.matrixToQuaternion],
+    ['toAxisAngle', Op.toAxisAngle],
+    ['sum', Op.sum],
+    ['mean', Op.mean],
+    ['min', Op.min],
+    ['max', Op.max],
+    ['median', Op.median],
+    ['stddev', Op.standardDeviation],
+    ['centroid', Op.centroid],
+    ['boundingBox', Op.boundingBox],
+    ['covariance', Op.covariance],
+    ['bestFitPlane', Op.bestFitPlane],
+    ['eigenvalues', Op.eigenvalues],
+    ['singularValues', Op.singularValues],
+    ['orthonormalize', Op.orthonormalize],
+
+    // Binary
+    ['add', Op.addPairs],
+    ['subtract', Op.subPairs],
+    ['multiply', Op.multiply],
+    ['divide', Op.divPairs],
+    ['power', Op.powPairs],
+    ['dot', Op.dot],
+    ['cross', Op.cross],
+    ['angle', Op.angle],
+    ['project', Op.project],
+    ['reject', Op.reject],
+    ['plane', Op.plane],
+    ['planeDistance', Op.planeDistance],
+    ['reflect', Op.reflect],
+    ['projectOntoPlane', Op.projectOntoPlane],
+    ['and', Op.and],
+    ['or', Op.or],
+    ['xor', Op.xor],
+    ['div', Op.div],
+    ['mod', Op.mod],
+    ['transformPoint', Op.transformPoint],
+    ['transformDirection', Op.transformDirection],
+    ['compose', Op.compose],
+    ['quatMultiply', Op.quaternionMultiply],
+    ['rotateVector', Op.rotateVector],
+    ['axisAngle', Op.axisAngle],
+    ['angularDistance', Op.angularDistance],
+    ['histogram', Op.histogram],
+    ['solve', Op.solve],
+
+    // Ternary
+    ['lookAt', Op.lookAt],
+    ['slerp', Op.slerp],
+    ['nlerp', Op.nlerp],
+    ['rayPlane', Op.rayPlaneIntersection],
+    ['linePlane', Op.linePlaneIntersection],
+    ['lineDistance', Op.pointLineDistance],
+    ['segmentDistance', Op.pointSegmentDistance],
+    ['triangleNormal', Op.triangleNormal],
+    ['triangleArea', Op.triangleArea],
+    ['refract', Op.refract],
+
+    // Four operands
+    ['closestPoints', Op.closestPoints],
+    ['barycentric', Op.barycentric]
+]);
+
+// Returns true if name can be given to a variable: a name that is not a function, constant, operator or pop
+export function isVariableName(name: string): boolean
+{
+    return name.search(/^[a-zA-Z_][a-zA-Z0-9_]*$/) >= 0 && !functions.has(name) && !constants.has(name) &&
+        !multiplicativeOperators.has(name) && name !== 'pop';
+}
+
+// Infix operators, by precedence
+const additiveOperators = new Map<string, (a: Value, b: Value) => Value>([
+    ['+', Op.addPairs],
+    ['-', Op.subPairs]
+]);
+const multiplicativeOperators = new Map<string, (a: Value, b: Value) => Value>([
+    ['*', Op.multiply],
+    ['/', Op.divPairs],
+    ['x', Op.cross],
+    ['cross', Op.cross],
+    ['dot', Op.dot]
+]);
+
+const closingDelimiters = new Map<string, string>([['(', ')'], ['[', ']'], ['{', '}']]);
+
+// Thrown to abandon evaluation of an expression, caught in evaluate()
+class ExpressionError extends Error
+{
+}
+
+// Recursive descent evaluator for the expression grammar:
+//   expression := term (('+' | '-') term)*
+//   term       := factor (('*' | '/' | 'x' | 'cross' | 'dot') factor)*
+//   factor     := '-' factor | power
+//   power      := primary ('^' factor)?
+//   primary    := number | typed value | variable | constant | 'pop' | function '(' arguments ')' | '(' expression (',' expression)* ')'
+// Parenthesized lists of scalars are vectors and lists of equal length vectors are column-major matrices,
+// the same as in the text.  Any of (), [] or {} can be used.
+class Evaluator
+{
+    constructor(text: string, stack: Value[], typePrefixes: Parser.TypePrefix[], variables: Map<string, Value>)
+    {
+        this.text = text;
+        this.stack = stack;
+        this.typePrefixes = typePrefixes;
+        this.variables = variables;
+    }
+
+    expression(): Value
+    {
+        let value = this.term();
+        while (true)
+        {
+            this.skipSpace();
+            let op = additiveOperators.get(this.text[this.i]);
+            if (op === undefined)
+            {
+                return value;
+            }
+            let symbol = this.text[this.i++];
+            value = this.apply(symbol, op, [value, this.term()]);
+        }
+    }
+
+    term(): Value
+    {
+        let value = this.factor();
+        while (true)
+        {
+            this.skipSpace();
+            let symbol = this.peekName();
+            if (symbol === '')
+            {
+                symbol = this.text[this.i];
+            }
+            let op = multiplicativeOperators.get(symbol);
+            if (op === undefined)
+            {
+                return value;
+            }
+            this.i += symbol.length;
+            value = this.apply(symbol, op, [value, this.factor()]);
+        }
+    }
+
+    factor(): Value
+    {
+        this.skipSpace();
+        if (this.text[this.i] === '-')
+        {
+            this.i++;
+            return Op.negate(this.factor());
+        }
+        return this.power();
+    }
+
+    power(): Value
+    {
+        let value = this.primary();
+        this.skipSpace();
+        if (this.text[this.i] === '^')
+        {
+            this.i++;
+            value = this.apply('^', Op.powPairs, [value, this.factor()]);
+        }
+        return value;
+    }
+
+    primary(): Value
+    {
+        this.skipSpace();
+        if (this.i >= this.text.length)
+        {
+            throw new ExpressionError('unexpected end of expression');
+        }
+
+        // Parenthesized expression, vector or matrix
+        let c = this.text[this.i];
+        let close = closingDelimiters.get(c);
+        if (close !== undefined)
+        {
+            this.i++;
+            let items = this.list(close);
+            return (items.length === 1 ? items[0] : this.group(items));
+        }
+
+        // Number, using the same syntax as in the text
+        if (c.search(/[0-9.]/) >= 0)
+        {
+            let numberStr = Parser.matchNumber(this.text.substr(this.i));
+            if (numberStr === null)
+            {
+                throw new ExpressionError('invalid number at "' + this.text.substr(this.i) + '"');
+            }
+            this.i += numberStr.length;
+            if (numberStr.substr(0, 2) === '0x')
+            {
+                this.hex = true;
+            }
+            else
+            {
+                this.decimal = true;
+            }
+            let number = Parser.readNumber(numberStr);
+            return (number.exact === undefined ? Value.scalar(number.x) : Value.integers([number.exact]));
+        }
+
+        // Value written with a type prefix, eg. float3(1, 2, 3)
+        let typed = this.typedValue();
+        if (typed !== undefined)
+        {
+            return typed;
+        }
+
+        // Function call, variable, constant or stack
+        let name = this.peekName();
+        if (name === '')
+        {
+            throw new ExpressionError('unexpected "' + c + '"');
+        }
+        this.i += name.length;
+        this.skipSpace();
+        let fn = functions.get(name);
+        if (fn !== undefined && this.text[this.i] === '(')
+        {
+            this.i++;
+            let args = this.list(')');
+            if (args.length !== fn.length)
+            {
+                throw new ExpressionError(name + ' takes ' + fn.length + ' argument' + (fn.length === 1 ? '' : 's'));
+            }
+            return this.apply(name, fn, args);
+        }
+        let variable = this.variables.get(name);
+        if (variable !== undefined)
+        {
+            return variable;
+        }
+        let constant = constants.get(name);
+        if (constant !== undefined)
+        {
+            return constant;
+        }
+        if (name === 'pop')
+        {
+            let value = this.stack.pop();
+            if (value === undefined)
+            {
+                throw new ExpressionError('the stack is empty');
+            }
+            return value;
+        }
+        throw new ExpressionError('unknown name "' + name + '"');
+    }
+
+    // Reads a value written with a type prefix at the current position the same way as in the text, including any
+    // qualifier before the prefix, eg. glm::vec3(1, 2, 3).  Returns undefined if there is none.
+    typedValue(): Value|undefined
+    {
+        let rest = this.text.substr(this.i);
+        let tree = Parser.parse(rest, this.typePrefixes);
+        let node = (tree.type === Parser.NodeType.List ? tree.items[0] : tree);
+        if (node === undefined || node.typePrefix === undefined || rest.substr(0, node.begin).search(/^[a-zA-Z0-9_:.]*$/) < 0)
+        {
+            return undefined;
+        }
+
+        let parsed = Parser.toValue(rest, node);
+        if (!parsed.value.valid)
+        {
+            return undefined;
+        }
+        this.i += node.end;
+        if (parsed.hex)
+        {
+            this.hex = true;
+        }
+        else
+        {
+            this.decimal = true;
+        }
+        return parsed.value;
+    }
+
+    // Parses comma separated expressions up to and including the close delimiter
+    list(close: string): Value[]
+    {
+        let items = [this.expression()];
+        while (true)
+        {
+            this.skipSpace();
+            let c = this.text[this.i++];
+            if (c === close)
+            {
+                return items;
+            }
+            if (c !== ',')
+            {
+                throw new ExpressionError('expected "' + close + '"');
+            }
+            items.push(this.expression());
+        }
+    }
+
+    // Combines a list of scalars into a vector, or a list of equal length vectors into a matrix
+    group(items: Value[]): Value
+    {
+        let rows = items[0].length;
+        let dimensions = items[0].dimensions;
+        for (const item of items)
+        {
+            if (item.dimensions !== dimensions || item.length !== rows || dimensions > 1)
+            {
+                throw new ExpressionError('list items must all be scalars or vectors of the same length');
+            }
+        }
+        let x: number[] = [];
+        items.forEach((item: Value) => x.push(...item));
+        let exact: bigint[] = [];
+        items.forEach((item: Value) => exact.push(...(item.exact === undefined ? [] : item.exact)));
+        return new Value(x, dimensions === 0 ? x.length : rows, exact.length === x.length ? exact : undefined);
+    }
+
+    apply(name: string, op: (...args: Value[]) => Value, args: Value[]): Value
+    {
+        let value = op(...args);
+        if (!value.valid)
+        {
+            throw new ExpressionError('cannot apply ' + name + ' to ' + args.map((x: Value) => x.stringify(ValueMode.Decimal)).join(', ') +
+                (value.reason.length > 0 ? ': ' + value.reason : ''));
+        }
+        return value;
+    }
+
+    // Returns the identifier beginning at the current position, or '' if there is none
+    peekName(): string
+    {
+        let match = this.text.substr(this.i).match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
+        return (match === null ? '' : match[0]);
+    }
+
+    skipSpace()
+    {
+        while (this.i < this.text.length && this.text[this.i].search(/\s/) >= 0)
+        {
+            this.i++;
+        }
+    }
+
+    text: string;
+    i: number = 0;
+    stack: Value[];
+    typePrefixes: Parser.TypePrefix[];
+    variables: Map<string, Value>;
+
+    // Whether any hexadecimal or decimal numbers were written in the expression
+    hex: boolean = false;
+    decimal: boolean = false;
+}
+
+// The result of evaluating an expression.  If evaluation failed, value is Value.invalid and error
+// describes the problem.  hex is true if the expression contained hexadecimal numbers but no decimal ones.
+export interface Evaluation
+{
+    value: Value;
+    hex: boolean;
+    error: string;
+}
+
+// Evaluates text input by the user.  It can be a value written the same way as in the text, eg. (1 2 3) or float3(1, 2, 3),
+// or an expression combining values, variables, constants, values popped from the stack, operators and functions,
+// eg. normalize((1, 2, 3) x k) * 2 + pop.  Values popped by the expression are removed from stack.
+export function evaluate(text: string, stack: Value[], typePrefixes: Parser.TypePrefix[] = [], variables = new Map<string, Value>()): Evaluation
+{
+    // Use plain values as they are, so that they are read exactly as they would be in the text
+    let tree = Parser.parse(text, typePrefixes);
+    if (tree.type !== Parser.NodeType.List && text.substr(0, tree.begin).trim() === '' && text.substr(tree.end).trim() === '')
+    {
+        let parsed = Parser.toValue(text, tree);
+        return { value: parsed.value, hex: parsed.hex, error: '' };
+    }
+
+    let evaluator = new Evaluator(text, stack, typePrefixes, variables);
+    try
+    {
+        let value = evaluator.expression();
+        evaluator.skipSpace();
+        if (evaluator.i < text.length)
+        {
+            throw new ExpressionError('unexpected "' + text.substr(evaluator.i) + '"');
+        }
+        return { value: value, hex: evaluator.hex && !evaluator.decimal, error: '' };
+    }
+    catch (e)
+    {
+        if (e instanceof ExpressionError)
+        {
+            return { value: Value.invalid, hex: false, error: e.message };
+        }
+        throw e;
+    }
+}
+
+// A worksheet line is one ending in '=', whose result is shown after the '='.
+// equals is the position of the final '=' in the line.
+export interface WorksheetLine
+{
+    equals: number;
+    evaluation: Evaluation;
+}
+
+// Checks if line ends in '=', and if so evaluates the expression before it.  The expression begins after
+// any earlier '=', so that a line can label its result, eg. "n = (1, 2, 3) cross (0, 1, 0) =".  The label is only
+// text: it is not stored as a variable for later lines.  Returns undefined if the line is not a worksheet line.
+export function evaluateWorksheetLine(line: string, stack: Value[], typePrefixes: Parser.TypePrefix[] = [],
+    variables = new Map<string, Value>()): WorksheetLine|undefined
+{
+    let match = line.match(/^(.*)=\s*$/);
+    if (match === null)
+    {
+        return undefined;
+    }
+
+    let equals = match[1].length;
+    let expression = match[1].substr(match[1].lastIndexOf('=') + 1);
+    if (expression.trim().length === 0)
+    {
+        return undefined;
+    }
+    return { equals: equals, evaluation: evaluate(expression, stack, typePrefixes, variables) };
+}
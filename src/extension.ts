@@ -1,353 +1,201 @@
 'use strict';
-import { ExtensionContext, CancellationToken, DecorationOptions, Disposable, DocumentLink, DocumentLinkProvider,
-    OutputChannel, Position, QuickPickItem, QuickPickOptions, Range, TextDocument, TextEditorDecorationType, TextEditorEdit, TextEditor, Uri, 
-    languages, commands, window, EndOfLine } from 'vscode';
+import { ExtensionContext, CancellationToken, CodeAction, CodeActionContext, CodeActionKind, CodeActionProvider, ConfigurationChangeEvent,
+    DecorationOptions, Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, DocumentLink, DocumentLinkProvider,
+    Hover, HoverProvider, MarkdownString, OutputChannel, WorkspaceEdit, Position, QuickPickItem, QuickPickOptions, Range, TextDocument, TextDocumentChangeEvent, TextEditorDecorationType, TextEditorEdit, TextEditor, TextEditorVisibleRangesChangeEvent, Uri, 
+    Event, EventEmitter, Memento, ConfigurationTarget, DataTransfer, DataTransferItem, TreeDataProvider, TreeDragAndDropController, TreeItem, TreeItemCollapsibleState, languages, commands, window, workspace, EndOfLine } from 'vscode';
 import * as Parser from './parser';
-import { ValueMode, Value } from './value';
+import { constants, functions, evaluate, evaluateWorksheetLine, isVariableName } from './expression';
+import { getSyntax } from './syntax';
+import { LineCache } from './lineCache';
+import { addPairs, subPairs, divPairs, powPairs, multiply, magnitude, square, sqrt, reciprocal, negate, abs,
+    sin, cos, tan, asin, acos, atan, log, exp, exp2, rad2deg, deg2rad, normalize, dot, project, reject, cross, angle,
+    xyz, plane, planeDistance, rayPlaneIntersection, linePlaneIntersection, closestPoints, pointLineDistance, pointSegmentDistance,
+    triangleNormal, triangleArea, barycentric, reflect, refract, projectOntoPlane, quaternionToMatrix, transpose, isSquare, identity, determinant, inverse, trace, rank,
+    and, or, xor, not, shl, shr, rotl, rotr, popcount, clz, ctz, div, mod, bitField,
+    asFloat, floatBits, describeFloat, isTransform, transformPoint, transformDirection, compose, affineInverse, decompose,
+    translation, scale, lookAt, matrixToQuaternion, quaternionMultiply, conjugate, quaternionInverse, rotateVector, axisAngle,
+    toAxisAngle, eulerOrders, eulerToQuaternion, toEuler, slerp, nlerp, angularDistance, isOrthonormal,
+    solveSystem, luDecomposition, qrDecomposition, choleskyDecomposition, eigenDecomposition, singularValueDecomposition, polarDecomposition,
+    orthonormalize, sum, mean, min, max, least, greatest, median, standardDeviation, histogram, histogramBins, centroid, boundingBox, covariance, bestFitPlane } from './operators';
+import { ValueMode, Value, Constructor, Format, StoredValue, defaultFormat, applyFormatOption, widenFormat } from './value';
 
 let vscode = require('vscode');
 
-// Apply a scalar binary operator to two values, pairwise if one or both has dimension > 1
-// Returns Value.invalid if neither a nor b is scalar and they don't have the same number of rows and cols
-// (So, for example, if you try to add a vector to a matrix, it will not work).
-function opPairs(a:Value, b:Value, op:(a:number, b:number)=>number): Value
+// An item in the values view: the stack or variables group, or a value in one of them by its index in the stack or its name
+interface ValueItem
 {
-    // Check type compatibility -- requires equal dimension matrices, equal length vectors, or at least one scalar
-    if ((a.length !== b.length || a.rows !== b.rows) && a.dimensions !== 0 && b.dimensions !== 0)
-    {
-        return Value.invalid;
-    }
-
-    // Apply op
-    let result:number[] = [];
-    let length = Math.max(a.length, b.length);
-    for (let i = 0; i < length; i++)
-    {
-        result.push(op(a[i % a.length], b[i % b.length]));
-    }
-
-    return new Value(result, Math.max(a.rows, b.rows));
-}
-
-let addPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x + y);
-let subPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x - y);
-let mulPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x * y);
-let divPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x / y);
-let powPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => Math.pow(x, y));
-
-// Multiplies a vector or matrix by a vector or matrix.
-// Returns Value.invalid if left's cols do not match right's rows.
-function matrixMultiply(left:Value, right:Value): Value
-{
-    if (left.cols !== right.rows)
-    {
-        return Value.invalid;
-    }
-    
-    let result: number[] = [];
-    for (let i = 0; i < right.cols; i++)
-    {
-        for (let j = 0; j < left.rows; j++)
-        {
-            let sum = 0;
-            for (let k = 0; k < left.cols; k++)
-            {
-                sum += left.entry(j, k) * right.entry(k, i);
-            }
-            result.push(sum);
-        }
-    }
-    return new Value(result, left.rows);
-}
-
-// Returns the magnitude of a vector, or Value.invalid if x is not a vector
-function magnitude(x: Value): Value
-{
-    if (x.dimensions !== 1)
-    {
-        return Value.invalid;
-    }
-
-    let lengthSquared = 0;
-    for (let i = 0; i < x.length; i++)
-    {
-        lengthSquared += x[i] * x[i];
-    }
-    return Value.scalar(Math.sqrt(lengthSquared));
-}
-
-// Applies a unary operator to every element of a Value
-function unary(x:Value, op:(x:number) => number): Value
-{
-    let y: number[] = [];
-    x.forEach(function(x: number) { y.push(op(x)); });
-    return new Value(y, x.rows);
-}
-
-// Collection of simple unary operators
-let square = (x:Value) => unary(x, (x:number) => x * x);
-let sqrt = (x:Value) => unary(x, (x:number) => Math.sqrt(x));
-let reciprocal = (x:Value) => unary(x, (x:number) => 1.0 / x);
-let negate = (x:Value) => unary(x, (x:number) => -x);
-let abs = (x:Value) => unary(x, (x:number) => Math.abs(-x));
-let sin = (x:Value) => unary(x, (x:number) => Math.sin(x));
-let cos = (x:Value) => unary(x, (x:number) => Math.cos(x));
-let tan = (x:Value) => unary(x, (x:number) => Math.tan(x));
-let asin = (x:Value) => unary(x, (x:number) => Math.asin(x));
-let acos = (x:Value) => unary(x, (x:number) => Math.acos(x));
-let atan = (x:Value) => unary(x, (x:number) => Math.atan(x));
-let log = (x:Value) => unary(x, (x:number) => Math.log(x));
-let exp = (x:Value) => unary(x, (x:number) => Math.exp(x));
-let exp2 = (x:Value) => unary(x, (x:number) => Math.pow(2, x));
-let rad2deg = (x:Value) => unary(x, (x:number) => x * 180.0 / Math.PI);
-let deg2rad = (x:Value) => unary(x, (x:number) => x * Math.PI / 180.0);
-let zero = (x:Value) => unary(x, (x:number) => 0);
-
-// Normalizes a vector, or returns Value.invalid if x is not a vector
-function normalize(x:Value): Value
-{
-    if (x.dimensions !== 1)
-    {
-        return Value.invalid;
-    }
-    let invLength = 1.0 / magnitude(x)[0];
-    return unary(x, (x: number) => x * invLength);
-}
-
-// Returns the dot product of two vectors, or Value.invalid if the values
-// are not both vectors of equal length.
-function dot(a:Value, b:Value): Value
-{
-    if (a.length !== b.length || a.dimensions !== 1 || b.dimensions !== 1)
-    {
-        return Value.invalid;
-    }
-
-    let sum = 0;
-    let length = Math.max(a.length, b.length);
-    for (let i = 0; i < length; i++)
-    {
-        sum += a[i] * b[i];
-    }
-    return Value.scalar(sum);
-}
-
-// Returns the projection of a onto b, or Value.invalid if they are not
-// both vectors of equal length
-function project(a:Value, b:Value): Value
-{
-    let d = dot(a, b);
-    if (!d.valid)
-    {
-        return d;
-    }
-    if (d[0] === 0)
-    {
-        return zero(a);
-    }
-    return mulPairs(b, divPairs(d, dot(b, b)));
+    group: string;
+    index?: number;
+    name?: string;
 }
 
-// Returns the rejection of a from b, or Value.invalid if they are not
-// both vectors of equal length
-function reject(a:Value, b:Value): Value
+// An operand after the first of an operator in a chain of operations: the operand as it was read, and the expression it
+// was evaluated from if it was input, eg. pop.  Macros only have the expression.
+interface StepOperand
 {
-    let p = project(a, b);
-    return subPairs(a, p);
+    value?: string;
+    input?: string;
 }
 
-// Returns the cross product of two vectors, or Value.invalid if the values
-// are not both vectors of length at least 3.  If an operand is of length greater than 3,
-// the vector of its first 3 components is used in its place.
-function cross(a:Value, b:Value): Value
-{
-    if (a.dimensions !==1 || b.dimensions !== 1 || a.length < 3 || b.length < 3)
-    {
-        return Value.invalid;
-    }
-
-    return new Value([
-        a[1] * b[2] - a[2] * b[1],
-        a[2] * b[0] - a[0] * b[2],
-        a[0] * b[1] - a[1] * b[0]
-    ]);
-}
+// Type of the values view's items when they are dragged
+const valuesMimeType = 'application/vnd.code.tree.vectorcalculator.values';
 
-// Returns the angle between two vectors, or Value.invalid if the values are not
-// both nonzero vectors of the same length 2 or 3.
-function angle(a:Value, b:Value): Value
+// A step of a chain of operations: an operator, and its operands after the first
+interface Step
 {
-    if (a.dimensions !== 1 || b.dimensions !== 1 ||
-        a.length !== b.length || a.length < 2 || a.length > 3 || 
-        magnitude(a)[0] === 0 || magnitude(b)[0] === 0)
-    {
-        return Value.invalid;
-    }
-
-    let normA = normalize(a);
-    let normB = normalize(b);
-
-    let cosAngle = dot(normA, normB);
-    if (cosAngle[0] > Math.sqrt(2) / 2)
-    {
-        // Sine is closer to zero and therefore more accurate
-        let sinAngle: Value;
-        if (a.length === 2)
-        {
-            sinAngle = Value.scalar(normA[0] * normB[1] - normA[1] * normB[0]);
-        }
-        else
-        {
-            sinAngle = magnitude(cross(normA, normB));
-        }
-        return abs(asin(sinAngle));
-    }
-    return acos(cosAngle);
+    operator: string;
+    operands: StepOperand[];
 }
 
-// Returns a vector of the first three components of v, or invalid if v is not a vector
-// with at least three components
-function xyz(v: Value): Value
+// A chain of operations in the history, from its first operand to its result
+interface Chain
 {
-    if (v.dimensions !== 1 || v.rows < 3)
-    {
-        return Value.invalid;
-    }
-    return new Value(v.slice(0, 3));
+    source: string; // First operand as it was given
+    uri?: string; // Document and range that the first operand was read from, if any
+    range?: Range;
+    steps: Step[];
+    result: string;
 }
 
-// Returns the plane with normal normalize(xyz(direction)) containing point xyz(position),
-// or invalid if any of those operations are not possible.
-function plane(direction: Value, position: Value): Value
+// The current value and how it is written before an operator is applied, so that undo can go back to it
+interface Snapshot
 {
-    let n = normalize(xyz(direction));
-    let v = xyz(position);
-    if (!n.valid || n.rows < 3 || !v.valid)
-    {
-        return Value.invalid;
-    }
-
-    return new Value([n[0], n[1], n[2], negate(dot(n, v))[0]]);
+    value: Value;
+    mode: ValueMode;
+    format: Format;
+    sourceFormat: Format;
+    sourceConstructor: Constructor|undefined;
 }
 
-// Returns the signed distance from point xyz(a) to plane b
-function pointPlaneDistance(point: Value, plane: Value): Value
-{
-    let v = xyz(point);
-    if (!v.valid || plane.dimensions !== 1 || plane.length < 4)
-    {
-        return Value.invalid;
-    }
-
-    return dot(new Value([...v, 1.0]), plane);
-}
+// Operators that ask for input after they are chosen, and can be cancelled
+const inputOperators = ['bits', 'format', 'width'];
 
-// Converts quaternion ix + jy + kz + w to a 3x3 rotation matrix
-function quaternionToMatrix(quaternion: Value): Value
-{
-    if (quaternion.dimensions !==1 || quaternion.length !== 4)
-    {
-        return Value.invalid;
-    }
+// Number of chains kept in the history
+const historyLength = 100;
 
-    let q = normalize(quaternion);
+// A step of a macro in the settings: an operator, or an operator and expressions for its operands after the first
+type MacroStep = string|{ operator: string, operand?: string|string[] };
 
-    let q2 = addPairs(q, q);
-    let xq2 = mulPairs(q2, Value.scalar(q[0]));
-    let yq2 = mulPairs(q2, Value.scalar(q[1]));
-    let zq2 = mulPairs(q2, Value.scalar(q[2]));
-    let wq2 = mulPairs(q2, Value.scalar(q[3]));
+// Number of macros that can be nested inside each other
+const maxMacroDepth = 10;
 
-    let tmp1 = yq2[2] - wq2[0];
-    let tmp2 = xq2[2] + wq2[1];
-    let tmp3 = 1 - zq2[2];
+// Number of columns of a matrix that are listed as col operators
+const maxColumnOperators = 16;
 
-    return new Value(
-        [
-            tmp3 - yq2[1], xq2[1] + wq2[2], xq2[2] - wq2[1],
-            xq2[1] - wq2[2], tmp3 - xq2[0], yq2[2] + wq2[0],
-            tmp2, tmp1, (1 - xq2[0]) - yq2[1]
-        ], 3
-    );
-}
+// Matrices with more components than this, eg. large sets of points, list operators without working out their results
+const maxDescribedLength = 256;
 
-// Returns a transposed value.
-// Notes: if x is a scalar this returns the same scalar.
-// If x is an N-vector this returns a 1xN matrix, as there is no concept
-// of row vector here.
-function transpose(x: Value) : Value
-{
-    let y = new Value(x, x.cols);
-    for (let i = 0; i < x.rows; i++)
-    {
-        for (let j = 0; j < x.cols; j++)
-        {
-            y[y.index(j, i)] = x.entry(i, j);
-        }
-    }
-    return y;
-}
+// Number of operands of operators that take more than two, which wait for the operands after the first one at a time
+const operandCounts = new Map<string, number>([
+    ['rayPlane', 3],
+    ['linePlane', 3],
+    ['lineDistance', 3],
+    ['segmentDistance', 3],
+    ['triangleNormal', 3],
+    ['triangleArea', 3],
+    ['refract', 3],
+    ['lookAt', 3],
+    ['closestPoints', 4],
+    ['barycentric', 4]
+]);
 
-class ContentProvider implements DocumentLinkProvider
+class ContentProvider implements DocumentLinkProvider, HoverProvider, CodeActionProvider, TreeDataProvider<ValueItem>, TreeDragAndDropController<ValueItem>
 {
-    constructor()
+    constructor(state: Memento)
     {
         // Set up decorations
         this.scalarDecorationType = window.createTextEditorDecorationType({ color : "#9cdcfe" });
         this.vectorDecorationType = window.createTextEditorDecorationType({ color : "#dcdcaa" });
         this.matrixDecorationType = window.createTextEditorDecorationType({ color : "#c586c0" });
+        this.resultDecorationType = window.createTextEditorDecorationType({ after : { color : "#808080" } });
+        this.warningDecorationType = window.createTextEditorDecorationType({ backgroundColor : "#ffc00040" });
+
+        // Set up warnings about parts of values that are ignored
+        this.diagnostics = languages.createDiagnosticCollection('vcalc');
 
         // Set up text output
         this.channel = window.createOutputChannel('vcalc');
+
+        // Restore the stack and variables from the last session in this workspace
+        this.state = state;
+        let stored = state.get<{ stack: StoredValue[], variables: [string, StoredValue][] }>('values');
+        if (stored !== undefined)
+        {
+            this.stack = stored.stack.map((value: StoredValue) => Value.fromStored(value));
+            stored.variables.forEach((variable: [string, StoredValue]) => this.variables.set(variable[0], Value.fromStored(variable[1])));
+        }
+
+        // Start with the format from the settings
+        this.clear();
     }
 
-    onDidChangeVisibleTextEditors(editors: TextEditor[]): void
+    onDidChangeVisibleTextEditors(editors: readonly TextEditor[]): void
     {
         // Apply text decorations to inactive regions
         for (const e of editors)
         {
-            this.parse(e.document, e, undefined);
+            this.parse(e.document, undefined);
+            this.decorate(e);
+        }
+    }
+
+    // Forgets the parsed lines that changed
+    onDidChangeTextDocument(event: TextDocumentChangeEvent): void
+    {
+        let cache = this.caches.get(event.document.uri.toString());
+        if (cache === undefined)
+        {
+            return;
+        }
+        for (const change of event.contentChanges)
+        {
+            cache.replace(change.range.start.line, change.range.end.line, change.text.split('\n').length);
         }
+        this.versions.set(event.document.uri.toString(), event.document.version);
     }
 
     provideDocumentLinks(document: TextDocument, token: CancellationToken): DocumentLink[]
     {
-        // Check if this document belongs to a visible text editor
-        let editor: TextEditor|undefined = undefined;
+        // Decorate the visible text editors of this document
         for (const e of window.visibleTextEditors)
         {
             if (e.document === document)
             {
-                editor = e;
-                break;
+                this.decorate(e);
             }
         }
 
-        return this.parse(document, editor, token);
+        return this.parse(document, token);
     }
-    
-    // Parses every line of the document for numerical values and converts them to colored links
-    parse(document: TextDocument, editor: TextEditor|undefined, token: CancellationToken|undefined): DocumentLink[]
+
+    // Returns true if the document has more lines than the size limit in the settings, so that values are only found in
+    // the lines visible in its editors, and not linked
+    isLarge(document: TextDocument): boolean
     {
-        // Apply to plaintext only
-        if (document.languageId !== 'plaintext')
-        {
-            return [];
-        }
+        let limit = workspace.getConfiguration('vectorcalculator').get<number>('linkLineLimit', 10000);
+        return (limit > 0 && document.lineCount > limit);
+    }
 
-        let scalarDecorations : DecorationOptions[] = [];
-        let vectorDecorations : DecorationOptions[] = [];
-        let matrixDecorations : DecorationOptions[] = [];
+    // Parses every line of the document for numerical values, converts them to links and warns about their problems
+    parse(document: TextDocument, token: CancellationToken|undefined): DocumentLink[]
+    {
+        let diagnostics: Diagnostic[] = [];
         let links: DocumentLink[] = [];
-        for (let i = 0; i < document.lineCount; i++)
+
+        // Apply to the languages in the settings only.  Otherwise, there is nothing to find, but warnings
+        // may still need to be removed if the settings changed.  Large documents are handled by decorate instead.
+        let large = this.isLarge(document);
+        let lineCount = (this.isEnabled(document) && !large ? document.lineCount : 0);
+        let cache = this.getCache(document);
+        for (let i = 0; i < lineCount; i++)
         {
             if (token && token.isCancellationRequested)
             {
                 return [];
             }
 
-            // Parse the line and generate links for its values
-            let line = document.lineAt(i).text;
+            // Generate links for the line's values
+            let parsed = cache.parse(i);
             function linkify(node:Parser.Node)
             {
                 if (node.type === Parser.NodeType.List)
@@ -360,34 +208,315 @@ class ContentProvider implements DocumentLinkProvider
                     // Linkify the text
                     let begin = new Position(i, node.begin);
                     let end = new Position(i, node.end);
-                    let range = new Range(begin, end);
                     let commandUri = 'command:vectorcalculator.setOperand?' + JSON.stringify([begin, end]);
-                    links.push(new DocumentLink(range, Uri.parse(commandUri)));
+                    links.push(new DocumentLink(new Range(begin, end), Uri.parse(commandUri)));
+                }
+            }
+            linkify(parsed.node);
+            diagnostics.push(...this.warn(i, parsed.problems));
+        }
+
+        if (!large)
+        {
+            this.diagnostics.set(document.uri, diagnostics);
+        }
+        return links;
+    }
+
+    // Colors the values in the visible lines of the editor and shows the results of its worksheet lines.  In large
+    // documents, also warns about the problems in those lines.
+    decorate(editor: TextEditor)
+    {
+        let scalarDecorations : DecorationOptions[] = [];
+        let vectorDecorations : DecorationOptions[] = [];
+        let matrixDecorations : DecorationOptions[] = [];
+        let resultDecorations : DecorationOptions[] = [];
+        let warningDecorations : DecorationOptions[] = [];
+        let diagnostics: Diagnostic[] = [];
+        let typePrefixes = this.getTypePrefixes();
+        let format = this.getFormat();
+
+        // Visit each visible line once, even if visible ranges overlap
+        let document = editor.document;
+        let lines = new Set<number>();
+        if (this.isEnabled(document))
+        {
+            for (const range of editor.visibleRanges)
+            {
+                for (let i = range.start.line; i <= Math.min(range.end.line, document.lineCount - 1); i++)
+                {
+                    lines.add(i);
+                }
+            }
+        }
+
+        let cache = this.getCache(document);
+        for (const i of lines)
+        {
+            // Add decorations for the line's values, described by provideHover
+            let parsed = cache.parse(i);
+            function decorate(node:Parser.Node)
+            {
+                let range = new Range(i, node.begin, i, node.end);
+                switch (node.type)
+                {
+                    case Parser.NodeType.List: node.items.forEach(decorate); break;
+                    case Parser.NodeType.Scalar: scalarDecorations.push({ range: range }); break;
+                    case Parser.NodeType.Vector: vectorDecorations.push({ range: range }); break;
+                    case Parser.NodeType.Matrix: matrixDecorations.push({ range: range }); break;
+                    default: break;
+                }
+            }
+            decorate(parsed.node);
+            for (const problem of parsed.problems)
+            {
+                warningDecorations.push({ range: new Range(i, problem.begin, i, problem.end) });
+            }
+            diagnostics.push(...this.warn(i, parsed.problems));
+
+            // Show the result of a worksheet line after its '='.  In code, worksheet lines are only read from comments.
+            let line = cache.comments(i);
+            let worksheet = evaluateWorksheetLine(line, [...this.stack], typePrefixes, this.variables);
+            if (worksheet !== undefined && worksheet.evaluation.value.valid)
+            {
+                let evaluation = worksheet.evaluation;
+                let end = new Position(i, line.length);
+                let resultStr = evaluation.value.stringify(evaluation.hex ? ValueMode.Hexadecimal : ValueMode.Decimal, widenFormat(format, evaluation.value));
+                resultDecorations.push({ range: new Range(end, end), renderOptions: { after: { contentText: ' ' + resultStr } } });
+            }
+        }
+
+        // Apply decorations
+        editor.setDecorations(this.scalarDecorationType, scalarDecorations);
+        editor.setDecorations(this.vectorDecorationType, vectorDecorations);
+        editor.setDecorations(this.matrixDecorationType, matrixDecorations);
+        editor.setDecorations(this.resultDecorationType, resultDecorations);
+        editor.setDecorations(this.warningDecorationType, warningDecorations);
+        if (this.isLarge(document))
+        {
+            this.diagnostics.set(document.uri, diagnostics);
+        }
+    }
+
+    // Returns warnings about the problems in line i, which are parts of values that are ignored
+    warn(i: number, problems: Parser.Problem[]): Diagnostic[]
+    {
+        return problems.map((problem: Parser.Problem) =>
+        {
+            let diagnostic = new Diagnostic(new Range(i, problem.begin, i, problem.end), problem.message, DiagnosticSeverity.Warning);
+            diagnostic.source = 'vcalc';
+            return diagnostic;
+        });
+    }
+
+    // Offers the fixes for warnings from parse
+    provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext, token: CancellationToken): CodeAction[]
+    {
+        let actions: CodeAction[] = [];
+        for (const diagnostic of context.diagnostics)
+        {
+            if (diagnostic.source !== 'vcalc' || token.isCancellationRequested)
+            {
+                continue;
+            }
+
+            // Parse the line again to find the problem and its fix
+            let i = diagnostic.range.start.line;
+            let problem = this.getCache(document).parse(i).problems.find((problem: Parser.Problem) => problem.message === diagnostic.message &&
+                problem.begin === diagnostic.range.start.character && problem.end === diagnostic.range.end.character);
+            if (problem === undefined || problem.fix === undefined)
+            {
+                continue;
+            }
+            let action = new CodeAction(problem.fix.title, CodeActionKind.QuickFix);
+            action.edit = new WorkspaceEdit();
+            action.edit.replace(document.uri, new Range(i, problem.fix.begin, i, problem.fix.end), problem.fix.text);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            actions.push(action);
+        }
+        return actions;
+    }
+
+    // Shows derived properties of the value under the mouse, and links that apply common operators to it
+    provideHover(document: TextDocument, position: Position, token: CancellationToken): Hover|undefined
+    {
+        if (!this.isEnabled(document))
+        {
+            return undefined;
+        }
+
+        // Find the value, and any vector before it on the line
+        let line = this.getCache(document).text(position.line);
+        let nodes = this.valuesIn(document, position.line);
+        let index = nodes.findIndex((node: Parser.Node) => node.begin <= position.character && position.character < node.end);
+        if (index < 0 || token.isCancellationRequested)
+        {
+            return undefined;
+        }
+        let node = nodes[index];
+        let previous = nodes.slice(0, index).reverse().find((node: Parser.Node) => node.type === Parser.NodeType.Vector);
+        let parsed = Parser.toValue(line, node);
+        let value = parsed.value;
+        if (!value.valid)
+        {
+            return undefined;
+        }
 
-                    // Add decoration
-                    if (editor)
+        let format = this.getFormat();
+        let str = (x: Value) => '`' + x.stringify(ValueMode.Decimal, format) + '`';
+        let title: string;
+        let properties: string[] = [];
+        let operators: string[];
+        switch (value.dimensions)
+        {
+            case 0:
+                title = 'scalar';
+                operators = ['negate', 'reciprocal', 'sqrt', 'copy'];
+                if (parsed.hex)
+                {
+                    properties.push('decimal ' + str(value));
+                    if (value.isIntegral(32))
                     {
-                        switch (node.type)
-                        {
-                            case Parser.NodeType.Scalar: scalarDecorations.push({ range: range, hoverMessage: 'scalar' }); break;
-                            case Parser.NodeType.Vector: vectorDecorations.push({ range: range, hoverMessage: 'vector' + node.items.length }); break;
-                            case Parser.NodeType.Matrix: matrixDecorations.push({ range: range, hoverMessage: 'matrix' + node.items[0].items.length + 'x' + node.items.length }); break;
-                            default: break;
-                        }
+                        properties.push('float32 ' + str(asFloat(value, 32)));
                     }
+                    operators = ['decimal', 'asFloat32', 'not', 'copy'];
                 }
+                break;
+            case 1:
+            {
+                title = 'vector' + value.rows;
+                properties.push('length ' + str(magnitude(value)));
+                let normalized = normalize(value);
+                if (normalized.valid)
+                {
+                    properties.push('normalized ' + str(normalized));
+                }
+                let previousValue = (previous === undefined ? Value.invalid : Parser.toValue(line, previous).value);
+                let previousAngle = angle(previousValue, value);
+                if (previousAngle.valid)
+                {
+                    properties.push('angle to ' + str(previousValue) + ' ' + str(previousAngle) + ' (' + str(rad2deg(previousAngle)) + ' degrees)');
+                }
+                operators = ['length', 'normalize', 'push', 'copy'];
+                break;
             }
-            linkify(Parser.parse(line));
+            default:
+                title = 'matrix' + value.rows + 'x' + value.cols;
+                operators = ['transpose', 'copy'];
+                if (isSquare(value))
+                {
+                    let orthonormal = isOrthonormal(value);
+                    let det = determinant(value);
+                    properties.push('determinant ' + str(det));
+                    properties.push(orthonormal ? 'orthonormal' : 'not orthonormal');
+                    if (orthonormal && value.rows === 3 && det[0] > 0)
+                    {
+                        properties.push('rotation quaternion ' + str(matrixToQuaternion(value)));
+                    }
+                    operators = ['transpose', 'inverse', 'determinant', 'copy'];
+                }
+                break;
         }
 
-        // Apply decorations
-        if (editor)
+        // Links run the setOperand command with the operator to apply.  select is not an operator, so it shows the operator list.
+        let range = new Range(position.line, node.begin, position.line, node.end);
+        let link = (operator: string) => '[' + operator + '](command:vectorcalculator.setOperand?' +
+            encodeURIComponent(JSON.stringify(operator === 'select' ? [range.start, range.end] : [range.start, range.end, operator])) + ')';
+        let markdown = new MarkdownString('**' + title + '**\n\n' + properties.map((property: string) => '* ' + property + '\n').join('') +
+            '\n' + [link('select'), ...operators.map(link)].join(' | '));
+        markdown.isTrusted = true;
+        return new Hover(markdown, range);
+    }
+
+    // Returns the values in line i of the document, not including the lists that contain them
+    valuesIn(document: TextDocument, i: number): Parser.Node[]
+    {
+        let nodes: Parser.Node[] = [];
+        let enumerate = (node: Parser.Node) => (node.type === Parser.NodeType.List ? node.items.forEach(enumerate) : nodes.push(node));
+        enumerate(this.getCache(document).parse(i).node);
+        return nodes;
+    }
+
+    // Returns true if the document's language is one of the languages in the settings
+    isEnabled(document: TextDocument): boolean
+    {
+        let languages = workspace.getConfiguration('vectorcalculator').get<string[]>('languages', ['plaintext']);
+        return languages.indexOf(document.languageId) >= 0;
+    }
+
+    // Returns the type prefixes that values can be written with in code, from the settings
+    getTypePrefixes(): Parser.TypePrefix[]
+    {
+        return workspace.getConfiguration('vectorcalculator').get<Parser.TypePrefix[]>('typePrefixes', []);
+    }
+
+    // Returns the format for printing values, from the settings
+    getFormat(): Format
+    {
+        let config = workspace.getConfiguration('vectorcalculator.format');
+        return {
+            ...defaultFormat,
+            notation: config.get<string>('notation', defaultFormat.notation),
+            digits: Math.max(0, Math.min(config.get<number>('digits', defaultFormat.digits), 100)),
+            floatSuffix: (config.get<boolean>('floatSuffix', false) ? 'f' : ''),
+            brackets: config.get<string>('brackets', defaultFormat.brackets),
+            separator: config.get<string>('separator', defaultFormat.separator)
+        };
+    }
+
+    // Lets the user choose an option to change the format of the current result, see applyFormatOption.
+    // Returns the option, or undefined if none was chosen.
+    async chooseFormat(result: Value): Promise<string|undefined>
+    {
+        let options = ['shortest', 'digits 3', 'digits 6', 'digits 9', 'fixed 2', 'fixed 4', 'scientific', 'scientific 4',
+            this.format.floatSuffix.length > 0 ? 'no f suffix' : 'f suffix', 'brackets ()', 'brackets []', 'brackets {}', 'separator ", "', 'separator " "'];
+        let picks = (extra: string[]) => [...extra, ...options].map((option: string) =>
+        {
+            let format = applyFormatOption(this.format, option);
+            return { label: option, description: (format === undefined ? '(unrecognized)' : result.stringify(this.mode, format)) };
+        });
+
+        // Like inputOperand, allow options that are not in the list, eg. digits 4
+        const quickPick = window.createQuickPick();
+        quickPick.placeholder = 'Choose a format option or enter one (eg. digits 4, fixed 3, scientific 5, separator "; ")';
+        quickPick.items = picks([]);
+        quickPick.onDidChangeValue(() =>
+        {
+            quickPick.items = picks(quickPick.value.length > 0 && options.indexOf(quickPick.value) < 0 ? [quickPick.value] : []);
+        });
+        let option = await new Promise<string|undefined>((resolve) =>
+        {
+            quickPick.onDidAccept(() =>
+            {
+                let option = quickPick.activeItems[0];
+                resolve(option === undefined || applyFormatOption(this.format, option.label) === undefined ? undefined : option.label);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+        return option;
+    }
+
+    // Returns the parsed lines of the document, which mask everything that values should not be read from.  In code,
+    // that is everything outside of comments and strings, unless the codeScope setting is "everywhere".  The lines are
+    // kept until the document closes, and forgotten when they change or the settings change.
+    getCache(document: TextDocument): LineCache
+    {
+        let key = document.uri.toString();
+        let cache = this.caches.get(key);
+        if (cache === undefined || this.versions.get(key) !== document.version || cache.lineCount !== document.lineCount)
         {
-            editor.setDecorations(this.scalarDecorationType, scalarDecorations);
-            editor.setDecorations(this.vectorDecorationType, vectorDecorations);
-            editor.setDecorations(this.matrixDecorationType, matrixDecorations);
+            let plaintext = (document.languageId === 'plaintext');
+            let everywhere = (workspace.getConfiguration('vectorcalculator', document).get<string>('codeScope') === 'everywhere');
+            cache = new LineCache((i: number) => document.lineAt(i).text, document.lineCount,
+                plaintext ? undefined : getSyntax(document.languageId), everywhere, this.getTypePrefixes());
+            this.caches.set(key, cache);
+            this.versions.set(key, document.version);
         }
-        return links;
+        return cache;
     }
 
     report(message: string)
@@ -396,9 +525,30 @@ class ContentProvider implements DocumentLinkProvider
         this.channel.appendLine(message);
     }
 
+    // Reports an error if an operator failed, giving the operator, the shapes of its operands and the reason.
+    // NaN results are errors unless an operand was already NaN, or the operator reinterprets bit patterns, which can
+    // be NaN.  Returns true if there was an error.
+    reportFailure(operator: string, operands: Value[], result: Value): boolean
+    {
+        let reason = result.reason;
+        if (result.valid)
+        {
+            let hasNaN = (x: Value) => x.some((c: number) => isNaN(c));
+            if (!hasNaN(result) || operands.some(hasNaN) || operator.startsWith('asFloat'))
+            {
+                return false;
+            }
+            reason = 'NaN produced';
+        }
+        let shapes = operands.map((operand: Value) => operand.shape);
+        this.report('error, ' + operator + '(' + shapes.join(', ') + '): ' + (reason.length > 0 ? reason : 'invalid operands'));
+        return true;
+    }
+
     // GUI to input an operand that is not in the text.
-    // Values can be in the same format as in the text, but there is also a list of constants
-    // to choose from that are not recognized in the text.
+    // Values can be in the same format as in the text, or expressions combining them with operators, functions,
+    // named constants and values from the stack.  There is also a list of constants to choose from that are not
+    // recognized in the text.
     async inputOperand()
     {
         // Clear unless awaiting a second operand
@@ -408,29 +558,23 @@ class ContentProvider implements DocumentLinkProvider
         }
 
         // Make a list of preset constants
-        let consts = new Map<string, string>();
+        let constPicks: QuickPickItem[] = [];
         if (this.stack.length)
         {
-            consts.set('pop', this.stack[this.stack.length - 1].stringify(this.mode));
+            constPicks.push({label: 'pop', description: this.stack[this.stack.length - 1].stringify(this.mode, this.format)});
         }
-        consts.set('e', Math.E.toString());
-        consts.set('epsilon', (1.0 / 8388608).toString()); // 32-bit floating point epsilon, 2^-23
-        consts.set('pi', Math.PI.toString());
-        consts.set('sqrt2', Math.sqrt(2).toString());
-        consts.set('sqrt3', Math.sqrt(3).toString());
-        consts.set('i', '(1, 0, 0)');
-        consts.set('j', '(0, 1, 0)');
-        consts.set('k', '(0, 0, 1)');
-
-        let constPicks: QuickPickItem[] = [];
-        consts.forEach((value: string, key: string) =>
+        this.variables.forEach((value: Value, name: string) =>
+        {
+            constPicks.push({label: name, description: value.stringify(ValueMode.Decimal, this.format)});
+        });
+        constants.forEach((value: Value, key: string) =>
         {
-            constPicks.push({label: key, description: value});
+            constPicks.push({label: key, description: value.stringify(ValueMode.Decimal, this.format)});
         });
 
         // Let the user pick a constant or enter a value
         const quickPick = window.createQuickPick();
-        quickPick.placeholder = 'Input a named constant (eg. pi, sqrt2) or other value (eg. 123, (1, 2, 3))';
+        quickPick.placeholder = 'Input a named constant (eg. pi, sqrt2), value (eg. 123, (1, 2, 3)) or expression (eg. normalize((1, 2, 3) x k) * 2 + pop)';
         quickPick.canSelectMany = false;
         quickPick.items = constPicks;
         quickPick.onDidAccept(() =>
@@ -443,19 +587,20 @@ class ContentProvider implements DocumentLinkProvider
             }
             else
             {
-                // Check for preset constants
-                let operandStr = operand.description;
-                if (operandStr === undefined || operandStr.length === 0)
+                // Evaluate the input, removing anything it pops from the stack
+                let stack = [...this.stack];
+                let evaluation = evaluate(operand.label, stack, this.getTypePrefixes(), this.variables);
+                if (evaluation.value.valid)
                 {
-                    operandStr = operand.label;
+                    // Set the operand
+                    this.setStack(stack);
+                    this.setOperandStr(evaluation.value.stringify(evaluation.hex ? ValueMode.Hexadecimal : ValueMode.Decimal, widenFormat(defaultFormat, evaluation.value)), [], operand.label);
                 }
-                else if (operand.label === 'pop')
+                else
                 {
-                    this.stack.pop();
+                    this.report('error, ' + evaluation.error);
+                    this.clear();
                 }
-
-                // Set the operand
-                this.setOperandStr(operandStr);
             }
             quickPick.hide();
         });
@@ -463,122 +608,405 @@ class ContentProvider implements DocumentLinkProvider
         // QuickPick only lets you choose from its list of items, but while we want to provide
         // a navigable list of suggestions, we also want to allow any value to be entered.  So,
         // when the value that the user does not match anything in the list, it is just added
-        // as the first item in the list so that it can be selected.
+        // as the first item in the list so that it can be selected, with a preview of its result.
         quickPick.onDidChangeValue(() =>
         {
-            if (quickPick.value.length === 0 || quickPick.value[0].match(/[a-zA-Z]/))
+            if (quickPick.value.length === 0 || constPicks.some((pick: QuickPickItem) => pick.label === quickPick.value))
             {
                 // Entering a named constant
                 quickPick.items = constPicks;
             }
             else
             {
-                // Entering a value
-                quickPick.items = [{ label: quickPick.value }, ...constPicks];
+                // Entering a value or expression
+                let evaluation = evaluate(quickPick.value, [...this.stack], this.getTypePrefixes(), this.variables);
+                let description = (evaluation.value.valid ? evaluation.value.stringify(evaluation.hex ? ValueMode.Hexadecimal : ValueMode.Decimal, widenFormat(this.format, evaluation.value)) : evaluation.error);
+                quickPick.items = [{ label: quickPick.value, description: description }, ...constPicks];
             }
         });
         quickPick.onDidHide(() => quickPick.dispose());
         quickPick.show();
     }
 
-    // Chooses an operand from the text.
-    // This saves the range in the text that the value came from so that it can be overwritten
-    // by the replace operator later.
-    async setOperand(range: Range)
+    // Writes the results of the worksheet lines under the cursors into the text after their '='.  Lines that cannot be
+    // evaluated are left as they are and reported.
+    async writeResult()
     {
-        // Fetch the string from the document
-        if (!window.activeTextEditor)
+        let editor = window.activeTextEditor;
+        if (!editor)
         {
             return;
         }
-        let doc = window.activeTextEditor.document;
-        let operandStr = doc.getText(range);
+        let doc = editor.document;
 
-        // Save the source so that we can overwrite it later
-        if (!this.operand.valid)
+        // Evaluate each line once, even if it has several cursors
+        let lines = new Set<number>();
+        for (const selection of editor.selections)
         {
-            this.sourceRange = range;
-            this.sourceString = operandStr;
+            for (let i = selection.start.line; i <= selection.end.line; i++)
+            {
+                lines.add(i);
+            }
         }
 
-        this.setOperandStr(operandStr);
-    }
-    
-    // Inputs an operand.
-    // If there is a binary operator waiting for a second operand, that operation will be completed with the provided value
-    // and the result will be selected.  Otherwise, the provided value is selected.  Either way, the user is presented with
-    // a list of possible operators on the selected value.  If the user...
-    // - selects a unary operator: it is immediately applied.  If it is an output operator like copy or append then the state
-    //   is cleared; otherwise, the result of the operation is selected and a new list of operators is shown.
-    // - selects a binary operator: the operand and operator are saved until the user inputs another operand
-    // - does not select an operator: the state is reset
-    async setOperandStr(operandStr: string)
+        let cache = this.getCache(doc);
+        let format = this.getFormat();
+        let edits: { range: Range, text: string }[] = [];
+        let failures: string[] = [];
+        for (const i of lines)
+        {
+            let line = cache.comments(i);
+            let worksheet = evaluateWorksheetLine(line, [...this.stack], this.getTypePrefixes(), this.variables);
+            if (worksheet === undefined)
+            {
+                continue;
+            }
+            let evaluation = worksheet.evaluation;
+            if (!evaluation.value.valid)
+            {
+                failures.push('line ' + (i + 1) + ': ' + evaluation.error);
+                continue;
+            }
+            let resultStr = evaluation.value.stringify(evaluation.hex ? ValueMode.Hexadecimal : ValueMode.Decimal, widenFormat(format, evaluation.value));
+            edits.push({ range: new Range(new Position(i, worksheet.equals + 1), new Position(i, line.length)), text: ' ' + resultStr });
+        }
+
+        if (edits.length === 0 && failures.length === 0)
+        {
+            this.report('error, there is no line ending in = at the cursor');
+            return;
+        }
+        if (edits.length > 0)
+        {
+            let edited = await editor.edit(function(editBuilder: TextEditorEdit)
+            {
+                edits.forEach((edit) => editBuilder.replace(edit.range, edit.text));
+            });
+            if (!edited)
+            {
+                this.report('error, could not write result');
+                return;
+            }
+        }
+        if (failures.length > 0)
+        {
+            failures.forEach((failure: string) => this.channel.appendLine('error, ' + failure));
+            this.report('error, ' + failures.length + ' of ' + (edits.length + failures.length) + ' lines could not be evaluated, eg. ' + failures[0]);
+        }
+    }
+
+    // Chooses an operand from the text.
+    // This saves the range in the text that the value came from so that it can be overwritten
+    // by the replace operator later.
+    async setOperand(range: Range, steps: Step[] = [])
+    {
+        // Fetch the string from the document
+        if (!window.activeTextEditor)
+        {
+            return;
+        }
+        let doc = window.activeTextEditor.document;
+        let operandStr = doc.getText(range);
+
+        // Save the source so that we can overwrite it later, written the same way
+        if (!this.operand.valid)
+        {
+            let source = Parser.parse(operandStr, this.getTypePrefixes());
+            this.sourceRange = range;
+            this.sourceString = operandStr;
+            this.sourceConstructor = Parser.constructorOf(operandStr, source);
+            this.sourceFormat = Parser.formatOf(operandStr, source, this.format);
+        }
+
+        await this.setOperandStr(operandStr, steps);
+    }
+
+    // Applies operators to the selection, or the value at the caret, without choosing them from the list.  If the caret is
+    // not on a value, the values on its line are a dataset.  If an operator
+    // is binary, its second operand is evaluated from operands, eg. pop or (0, 1, 0), and the operators after it are
+    // applied to the result.  Operators with more operands take them in order.  If there are not enough operands, the
+    // operator waits for the rest as usual.
+    async apply(operatorLabels: string[], operands: string[] = [])
+    {
+        let editor = window.activeTextEditor;
+        if (!editor)
+        {
+            return;
+        }
+
+        // Find the value, or the dataset of all the values on the line if the caret is not on one
+        let range: Range = editor.selection;
+        if (range.isEmpty)
+        {
+            let caret = editor.selection.active;
+            let nodes = this.valuesIn(editor.document, caret.line);
+            let node = nodes.find((node: Parser.Node) => node.begin <= caret.character && caret.character <= node.end);
+            if (nodes.length === 0)
+            {
+                this.report('error, there is no value at the cursor');
+                return;
+            }
+            range = (node === undefined ? new Range(caret.line, nodes[0].begin, caret.line, nodes[nodes.length - 1].end) :
+                new Range(caret.line, node.begin, caret.line, node.end));
+        }
+
+        // Start a new chain of operations with it, leaving any binary operator waiting for its second operand
+        this.clear();
+        let steps = operatorLabels.map((label: string) => ({ operator: label, operands: [] }));
+        await this.setOperand(range, steps);
+        if (this.operator.length === 0 || operands.length === 0)
+        {
+            return;
+        }
+
+        // Complete the operation
+        await this.giveOperands(operands.map((input: string) => ({ input: input })), steps);
+    }
+
+    // Gives operands from a step to the waiting operator in order, and applies the steps after it once it has them all.
+    // Stops if an operand cannot be read, leaving the operator waiting for it.
+    async giveOperands(operands: StepOperand[], steps: Step[])
+    {
+        for (let i = 0; i < operands.length; i++)
+        {
+            let count = this.operands.length;
+            let value = (operands[i].value !== undefined ? operands[i].value : this.evaluateInput(operands[i].input as string));
+            if (value === undefined || this.operator.length === 0)
+            {
+                return;
+            }
+            let last = (i === operands.length - 1);
+            await this.setOperandStr(value, last ? steps : [], operands[i].input);
+            if (!last && this.operands.length !== count + 1)
+            {
+                return;
+            }
+        }
+    }
+
+    // Evaluates an expression input as an operand, eg. pop or (0, 1, 0), removing anything it pops from the stack.
+    // Returns the value written so that setOperandStr can read it, or undefined after reporting an error.
+    evaluateInput(input: string): string|undefined
+    {
+        let stack = [...this.stack];
+        let evaluation = evaluate(input, stack, this.getTypePrefixes(), this.variables);
+        if (!evaluation.value.valid)
+        {
+            this.report('error, ' + evaluation.error);
+            return undefined;
+        }
+        this.setStack(stack);
+        return evaluation.value.stringify(evaluation.hex ? ValueMode.Hexadecimal : ValueMode.Decimal, widenFormat(defaultFormat, evaluation.value));
+    }
+    
+    // Applies a unary operator, or a binary operator with a fixed second operand, to every value in the selections, or at the
+    // carets, replacing each one with its result written the same way.  All the replacements are a single edit.  Operators are
+    // the functions available in expressions, and if none is given the user chooses one, and inputs its second operand.
+    async applyToSelection(operatorName?: string, operandStr?: string)
     {
-        // Parse the operand
-        let x: number[] = [];
-        let allHex: boolean = (this.operand.length === 0 || this.mode === ValueMode.Hexadecimal);
-        function enumerate(node: Parser.Node)
+        let editor = window.activeTextEditor;
+        if (!editor)
+        {
+            return;
+        }
+        let document = editor.document;
+
+        // Choose the operator
+        if (operatorName === undefined)
         {
-            if (node.type === Parser.NodeType.Scalar)
+            let picks: QuickPickItem[] = [];
+            functions.forEach((fn: (...args: Value[]) => Value, name: string) =>
             {
-                let numberStr = operandStr.substr(node.begin, node.end - node.begin);
-                if (numberStr.substr(0, 2) === '0x')
+                if (fn.length <= 2)
                 {
-                    x.push(parseInt(numberStr));
+                    picks.push({ label: name, description: (fn.length === 1 ? '(unary)' : '(binary, with a second operand)') });
                 }
-                else
+            });
+            let pick = await window.showQuickPick(picks, { placeHolder: 'Operator to apply to every selected value' });
+            if (pick === undefined)
+            {
+                return;
+            }
+            operatorName = pick.label;
+        }
+        const name = operatorName;
+        const fn = functions.get(name);
+        if (fn === undefined || fn.length > 2)
+        {
+            this.report('error, ' + name + ' is not a unary or binary operator');
+            return;
+        }
+
+        // Evaluate the second operand of a binary operator.  Anything it pops is removed from the stack only once a
+        // replacement has been made.
+        let operands: Value[] = [];
+        let stack = this.stack;
+        if (fn.length === 2)
+        {
+            if (operandStr === undefined)
+            {
+                operandStr = await window.showInputBox({
+                    prompt: 'Second operand of ' + name + ', a value or expression, eg. pop',
+                    validateInput: (text: string) =>
+                    {
+                        let evaluation = evaluate(text, [...this.stack], this.getTypePrefixes(), this.variables);
+                        return (evaluation.value.valid ? undefined : evaluation.error);
+                    }
+                });
+                if (operandStr === undefined)
                 {
-                    x.push(parseFloat(numberStr));
-                    allHex = false;
+                    return;
                 }
             }
-            else
+            stack = [...this.stack];
+            let evaluation = evaluate(operandStr, stack, this.getTypePrefixes(), this.variables);
+            if (!evaluation.value.valid)
             {
-                node.items.forEach((node: Parser.Node) => enumerate(node));
+                this.report('error, ' + evaluation.error);
+                return;
             }
+            operands.push(evaluation.value);
         }
-        let tree = Parser.parse(operandStr); 
-        enumerate(tree);
-        this.mode = (allHex ? ValueMode.Hexadecimal : ValueMode.Decimal);
-        let rows: number;
-        switch(tree.type)
+
+        // Find the values in the selections, or at the carets of empty selections, once each
+        let cache = this.getCache(document);
+        let found = new Map<string, [Range, Parser.Node]>();
+        for (const selection of editor.selections)
         {
-            case Parser.NodeType.Scalar: rows = 1; break;
-            case Parser.NodeType.Vector: rows = x.length; break;
-            case Parser.NodeType.Matrix: rows = x.length / tree.items.length; break;
-            default:
-                this.report('error');
-                this.clear();
+            for (let i = selection.start.line; i <= selection.end.line; i++)
+            {
+                for (const node of this.valuesIn(document, i))
+                {
+                    let range = new Range(i, node.begin, i, node.end);
+                    if (selection.isEmpty ? range.contains(selection.active) : selection.contains(range))
+                    {
+                        found.set(i + ':' + node.begin, [range, node]);
+                    }
+                }
+            }
+        }
+        if (found.size === 0)
+        {
+            this.report('error, there are no values in the selection');
+            return;
+        }
+
+        // Apply the operator to each value, writing its result in the same style
+        let format = this.getFormat();
+        let edits: { range: Range, text: string }[] = [];
+        let failures: string[] = [];
+        found.forEach(([range, node]: [Range, Parser.Node]) =>
+        {
+            let line = cache.text(range.start.line);
+            let parsed = Parser.toValue(line, node);
+            let result = fn(parsed.value, ...operands);
+            if (!result.valid)
+            {
+                failures.push('line ' + (range.start.line + 1) + ' ' + name + '(' + [parsed.value, ...operands].map((x: Value) => x.shape).join(', ') + '): ' +
+                    (result.reason.length > 0 ? result.reason : 'invalid operands'));
+                return;
+            }
+            let mode = (parsed.binary ? ValueMode.Binary : parsed.hex ? ValueMode.Hexadecimal : ValueMode.Decimal);
+            let text = result.stringify(mode, widenFormat(Parser.formatOf(line, node, format), result), Parser.constructorOf(line, node));
+            edits.push({ range: range, text: text });
+            this.channel.appendLine(name + ' ' + document.getText(range) + ' = ' + text);
+        });
+
+        // Replace them all at once, so that it can be undone in one step
+        if (edits.length > 0)
+        {
+            let edited = await editor.edit(function(editBuilder: TextEditorEdit)
+            {
+                edits.forEach((edit) => editBuilder.replace(edit.range, edit.text));
+            });
+            if (!edited)
+            {
+                this.report('error, could not replace');
                 return;
+            }
+            if (stack !== this.stack)
+            {
+                this.setStack(stack);
+            }
+        }
+        if (failures.length > 0)
+        {
+            failures.forEach((failure: string) => this.channel.appendLine('error, ' + failure));
+            this.report('error, ' + failures.length + ' of ' + found.size + ' values could not be replaced, eg. ' + failures[0]);
+        }
+    }
+
+    // Inputs an operand.
+    // If there is a binary operator waiting for a second operand, that operation will be completed with the provided value
+    // and the result will be selected.  Otherwise, the provided value is selected.  Either way, the user is presented with
+    // a list of possible operators on the selected value.  If the user...
+    // - selects a unary operator: it is immediately applied.  If it is an output operator like copy or append then the state
+    //   is cleared; otherwise, the result of the operation is selected and a new list of operators is shown.
+    // - selects a binary operator: the operand and operator are saved until the user inputs another operand
+    // - does not select an operator: the state is reset
+    // The operators in steps are applied first instead of choosing them from the list, and removed as they are applied.  A
+    // binary operator's step can give its second operand, otherwise the steps after it are left for when its second operand
+    // is input.  Operators with more than two operands wait for each of them in turn, in operands.  input is the expression
+    // that operandStr was evaluated from, if any, eg. pop.
+    async setOperandStr(operandStr: string, steps: Step[] = [], input?: string)
+    {
+        // Let the user name a macro recorded to the end of the last chain before showing anything else
+        await this.savingMacro;
+
+        // Parse the operand.  Lists of values, eg. a selection of several lines, are datasets.
+        let parsed = Parser.toDataset(operandStr, Parser.parse(operandStr, this.getTypePrefixes()));
+        if (!parsed.value.valid)
+        {
+            // Keep a pending operator so that another operand can be given
+            let reason = (parsed.value.reason.length > 0 ? ': ' + parsed.value.reason : '');
+            this.report('error, could not read a value from "' + operandStr + '"' + reason);
+            if (this.operator.length === 0)
+            {
+                this.clear();
+            }
+            return;
+        }
+        // Begin a new chain of operations unless this completes a binary operator
+        if (this.operator.length === 0)
+        {
+            this.endChain();
+            await this.savingMacro;
+            let editor = window.activeTextEditor;
+            let fromSource = (editor !== undefined && this.sourceString.length > 0 && operandStr === this.sourceString);
+            this.chain = { source: operandStr, steps: [], result: operandStr };
+            if (editor !== undefined && fromSource)
+            {
+                this.chain.uri = editor.document.uri.toString();
+                this.chain.range = this.sourceRange;
+            }
+        }
+
+        let allBinary: boolean = (this.operand.length === 0 || this.mode === ValueMode.Binary) && parsed.binary;
+        let allHex: boolean = (this.operand.length === 0 || this.mode !== ValueMode.Decimal) && parsed.hex;
+        this.mode = (allBinary ? ValueMode.Binary : allHex ? ValueMode.Hexadecimal : ValueMode.Decimal);
+        let operand = parsed.value;
+
+        // Operators with more than two operands wait for the rest
+        let operandCount = operandCounts.get(this.operator);
+        if (operandCount !== undefined && this.operands.length + 2 < operandCount)
+        {
+            this.operands.push(operand);
+            this.chain.steps[this.chain.steps.length - 1].operands.push({ value: operandStr, input: input });
+            let given = [this.operand, ...this.operands].map((x: Value) => x.stringify(this.mode, this.format));
+            this.report(this.operator + '(' + given.join(', ') + ', ...)');
+            return;
         }
-        let operand = new Value(x, rows);
 
-        // If there was an operation in progress, complete it
+        // If there was an operation in progress, complete it.  note is anything else to report about the result.
         let result: Value;
+        let note = '';
         switch(this.operator)
         {
             // Arithmetic -- except for matrix-matrix and matrix-vector multiply, all are done component-wise
             case 'add': result = addPairs(this.operand, operand); break;
             case 'subtract': result = subPairs(this.operand, operand); break;
             case 'divide': result = divPairs(this.operand, operand); break;
-            case 'multiply':
-            {
-                if (this.operand.dimensions === 2 && operand.dimensions !== 0)
-                {
-                    // matrix times matrix or vector
-                    result = matrixMultiply(this.operand, operand);
-                }
-                else if (operand.dimensions === 2 && this.operand.dimensions !== 0)
-                {
-                    // vector times matrix, just reverse the order so it works
-                    result = matrixMultiply(operand, this.operand);
-                }
-                else
-                {
-                    result = mulPairs(this.operand, operand);
-                }
-                break;
-            }
+            case 'multiply': result = multiply(this.operand, operand); break;
             case 'power': result = powPairs(this.operand, operand); break;
 
             // Linear algebra
@@ -588,76 +1016,182 @@ class ContentProvider implements DocumentLinkProvider
             case 'project': result = project(this.operand, operand); break;
             case 'reject': result = reject(this.operand, operand); break;
             case 'plane': result = plane(this.operand, operand); break;
-            case 'planeDistance': 
-                if (operand.length >= 4 && this.operand.length < 4)
-                {
-                    result = pointPlaneDistance(this.operand, operand);
-                }
-                else
+            case 'planeDistance': result = planeDistance(this.operand, operand); break;
+
+            // Geometry
+            case 'rayPlane': result = rayPlaneIntersection(this.operand, this.operands[0], operand); break;
+            case 'linePlane': result = linePlaneIntersection(this.operand, this.operands[0], operand); break;
+            case 'closestPoints': result = closestPoints(this.operand, this.operands[0], this.operands[1], operand); break;
+            case 'lineDistance': result = pointLineDistance(this.operand, this.operands[0], operand); break;
+            case 'segmentDistance': result = pointSegmentDistance(this.operand, this.operands[0], operand); break;
+            case 'triangleNormal': result = triangleNormal(this.operand, this.operands[0], operand); break;
+            case 'triangleArea': result = triangleArea(this.operand, this.operands[0], operand); break;
+            case 'barycentric': result = barycentric(this.operand, this.operands[0], this.operands[1], operand); break;
+            case 'reflect': result = reflect(this.operand, operand); break;
+            case 'refract': result = refract(this.operand, this.operands[0], operand); break;
+            case 'projectOntoPlane': result = projectOntoPlane(this.operand, operand); break;
+            case 'solve':
+            {
+                let solution = solveSystem(this.operand, operand);
+                result = solution.x;
+                note = ' (residual ' + solution.residual + ', condition number ' + solution.condition + ')';
+                break;
+            }
+
+            // Transforms
+            case 'transformPoint': result = transformPoint(this.operand, operand); break;
+            case 'transformDirection': result = transformDirection(this.operand, operand); break;
+            case 'compose': result = compose(this.operand, operand); break;
+            case 'lookAt': result = lookAt(this.operand, this.operands[0], operand); break;
+
+            // Quaternions
+            case 'quatMultiply': result = quaternionMultiply(this.operand, operand); break;
+            case 'rotateVector': result = rotateVector(this.operand, operand); break;
+            case 'axisAngle': result = axisAngle(this.operand, operand); break;
+            case 'angularDistance': result = angularDistance(this.operand, operand); break;
+            case 'slerp':
+            case 'nlerp':
+            {
+                let t = await this.inputScalar('Interpolation parameter t, 0 for the first quaternion and 1 for the second');
+                if (t === undefined)
                 {
-                    result = pointPlaneDistance(operand, this.operand);
+                    this.clear();
+                    return;
                 }
+                result = (this.operator === 'slerp' ? slerp : nlerp)(this.operand, operand, t);
                 break;
+            }
+
+            // Integer
+            case 'and': result = and(this.operand, operand); break;
+            case 'or': result = or(this.operand, operand); break;
+            case 'xor': result = xor(this.operand, operand); break;
+            case 'shl': result = shl(this.operand, operand, this.format.bits); break;
+            case 'shr': result = shr(this.operand, operand, this.format.bits); break;
+            case 'rotl': result = rotl(this.operand, operand, this.format.bits); break;
+            case 'rotr': result = rotr(this.operand, operand, this.format.bits); break;
+            case 'div': result = div(this.operand, operand); break;
+            case 'mod': result = mod(this.operand, operand); break;
 
             default: result = operand;
         }
 
-        // Check for an error, eg. mismatched operands
-        if (!result.valid)
+        // Check for an error, eg. mismatched operands.  The operands and operator are kept so that another operand can be given.
+        let operands = [this.operand, ...this.operands, operand];
+        if (this.operator.length > 0 && this.reportFailure(this.operator, operands, result))
         {
-            this.report('error');
-            this.clear();
             return;
         }
+        if (this.operator.length > 0)
+        {
+            this.chain.steps[this.chain.steps.length - 1].operands.push({ value: operandStr, input: input });
+        }
+
+        // Widen hexadecimal and binary integers that do not fit the current width, eg. 64-bit numbers
+        if (this.mode !== ValueMode.Decimal)
+        {
+            this.format = widenFormat(this.format, result);
+            this.sourceFormat = { ...this.sourceFormat, bits: this.format.bits };
+        }
 
         // Decide what to do next
         let binaryOperator = true;
         while (true)
         {
+            // If a unary operator failed, report it and go back to its operand
+            let failed = false;
+            if (!binaryOperator && this.reportFailure(this.operator, [this.operand], result))
+            {
+                result = this.operand;
+                this.operator = '';
+                steps.length = 0;
+                failed = true;
+                this.previous.pop();
+                this.chain.steps.pop();
+            }
+
             // Show the current value
-            let resultStr = result.stringify(this.mode);
+            let resultStr = result.stringify(this.mode, this.format);
             let message: string;
-            if (this.operator.length === 0)
+            if (failed)
+            {
+                message = '';
+            }
+            else if (this.operator.length === 0)
             {
                 message = 'Select ' + resultStr;
             }
             else if (binaryOperator)
             {
-                message = this.operand.stringify(this.mode) + ' ' + this.operator + ' ' + operand.stringify(this.mode) + ' = ' + resultStr;
+                let given = operands.map((x: Value) => x.stringify(this.mode, this.format));
+                message = (given.length === 2 ? given[0] + ' ' + this.operator + ' ' + given[1] : this.operator + '(' + given.join(', ') + ')') + ' = ' + resultStr + note;
             }
             else
             {
-                message = this.operator + ' ' + this.operand.stringify(this.mode) + ' = ' + resultStr;
+                message = this.operator + ' ' + this.operand.stringify(this.mode, this.format) + ' = ' + resultStr;
             }
-            this.report(message);
+            if (message.length > 0)
+            {
+                this.report(message);
+            }
+            this.chain.result = resultStr;
             binaryOperator = false;
 
             // Build the operator list
             let operators: QuickPickItem[] = [];
 
+            // Step back
+            if (this.previous.length > 0)
+            {
+                let snapshot = this.previous[this.previous.length - 1];
+                operators.push({ label: 'undo', description: snapshot.value.stringify(snapshot.mode, snapshot.format) });
+            }
+
             // Output operations
             operators.push({ label: 'copy', description: resultStr });
             operators.push({ label: 'push', description: resultStr });
+            operators.push({ label: 'store', description: '(as a named variable)' });
             operators.push({ label: 'append', description: resultStr });
-            operators.push({ label: 'replace', description: resultStr });
+            operators.push({ label: 'replace', description: this.replacement(result) });
+
+            operators.push({ label: 'format', description: '(digits, notation, f suffix, brackets, separator)' });
 
             // Mode operations
-            if (result.isIntegral())
+            if (this.mode !== ValueMode.Decimal)
+            {
+                if (result.isIntegral(this.format.bits))
+                {
+                    operators.push({ label: 'decimal', description: result.stringify(ValueMode.Decimal, this.format)});
+                }
+                else
+                {
+                    // Result cannot be hex or binary
+                    this.mode = ValueMode.Decimal;
+                }
+            }
+            for (const bits of [32, 64])
             {
-                switch (this.mode)
+                if (result.isIntegral(bits) && (this.mode !== ValueMode.Hexadecimal || this.format.bits !== bits))
                 {
-                    case ValueMode.Decimal:
-                        operators.push({ label: 'hex32', description: result.stringify(ValueMode.Hexadecimal)});
-                        break;
-                    case ValueMode.Hexadecimal:
-                        operators.push({ label: 'decimal', description: result.stringify(ValueMode.Decimal)});
-                        break;
+                    let format = { ...this.format, bits: bits, hexDigits: bits / 4 };
+                    operators.push({ label: 'hex' + bits, description: result.stringify(ValueMode.Hexadecimal, format)});
                 }
             }
-            else
+            if (result.isIntegral(this.format.bits))
             {
-                // Result cannot be hex32
-                this.mode = ValueMode.Decimal;
+                if (this.mode !== ValueMode.Binary)
+                {
+                    operators.push({ label: 'binary', description: result.stringify(ValueMode.Binary, this.format)});
+                }
+                operators.push({ label: 'width', description: '(' + this.format.bits + ' bit integers)' });
+                for (const signedness of ['signed', 'unsigned'])
+                {
+                    if (this.format.signedness !== signedness)
+                    {
+                        let format = { ...this.format, signedness: signedness };
+                        operators.push({ label: signedness, description: result.stringify(ValueMode.Decimal, format)});
+                    }
+                }
             }
 
             if (result.dimensions === 1)
@@ -666,14 +1200,14 @@ class ContentProvider implements DocumentLinkProvider
                 let labels = ['x', 'y', 'z', 'w'];
                 for (let i = 0; i < Math.min(result.length, labels.length); i++)
                 {
-                    operators.push({ label: labels[i], description : result[i].toString()});
+                    operators.push({ label: labels[i], description : result.row(i).stringify(this.mode, this.format)});
                 }
                 if (result.length > 3)
                 {
-                    operators.push({ label: 'xyz', description : xyz(result).stringify(this.mode)});
+                    operators.push({ label: 'xyz', description : xyz(result).stringify(this.mode, this.format)});
                 }
-                operators.push({ label: 'length', description: magnitude(result).stringify(this.mode) });
-                operators.push({ label: 'normalize', description: normalize(result).stringify(this.mode) });
+                operators.push({ label: 'length', description: magnitude(result).stringify(this.mode, this.format) });
+                operators.push({ label: 'normalize', description: normalize(result).stringify(this.mode, this.format) });
                 operators.push({ label: 'dot' });
                 operators.push({ label: 'project' });
                 operators.push({ label: 'reject' });
@@ -682,24 +1216,128 @@ class ContentProvider implements DocumentLinkProvider
                     operators.push({ label: 'cross' });
                     operators.push({ label: 'plane' });
                     operators.push({ label: 'planeDistance' });
+                    operators.push({ label: 'projectOntoPlane', description: '(closest point on a plane)' });
+                    operators.push({ label: 'rayPlane', description: '(intersection of the ray from this origin with a direction, then a plane)' });
+                    operators.push({ label: 'linePlane', description: '(intersection of the line through this point and another, then a plane)' });
+                    operators.push({ label: 'triangleNormal', description: '(unit normal of the triangle of this point and two more)' });
+                }
+                if (result.length >= 2)
+                {
+                    // Geometry of points
+                    operators.push({ label: 'lineDistance', description: '(from this point to the line through two points)' });
+                    operators.push({ label: 'segmentDistance', description: '(from this point to the segment between two points)' });
+                    operators.push({ label: 'closestPoints', description: '(between the line through this point and another, and the line through two more)' });
+                    operators.push({ label: 'triangleArea', description: '(of the triangle of this point and two more)' });
+                    operators.push({ label: 'barycentric', description: '(coordinates of this point in the triangle of three more)' });
+                    operators.push({ label: 'reflect', description: '(this direction about a normal)' });
+                    operators.push({ label: 'refract', description: '(this direction through a surface with a normal, then the ratio of refractive indices)' });
                 }
                 if (result.length >= 2 && result.length <= 3 && magnitude(result)[0] !== 0)
                 {
                     operators.push({ label: 'angle', description: '(to another vector)' });
                 }
+                if (result.length >= 2)
+                {
+                    // Statistics of the components
+                    operators.push({ label: 'sum', description: sum(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'mean', description: mean(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'min', description: min(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'max', description: max(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'median', description: median(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'stddev', description: standardDeviation(result).stringify(this.mode, this.format) + ' (sample standard deviation)' });
+                    operators.push({ label: 'histogram', description: '(counts in ' + histogramBins(result) + ' bins, logged in the output)' });
+                }
                 if (result.length === 4)
                 {
+                    // Quaternion operations
                     operators.push({ label: 'rotation', description: '(convert quaternion ix + jy + kz + w to rotation matrix)' });
+                    operators.push({ label: 'quatMultiply', description: '(by another quaternion)' });
+                    operators.push({ label: 'conjugate', description: conjugate(result).stringify(this.mode, this.format) });
+                    let inv = quaternionInverse(result);
+                    operators.push({ label: 'quatInverse', description: inv.valid ? inv.stringify(this.mode, this.format) : '(zero)' });
+                    operators.push({ label: 'rotateVector', description: '(rotate a vector by this quaternion)' });
+                    operators.push({ label: 'toAxisAngle', description: toAxisAngle(result).stringify(this.mode, this.format) + ' (axis, angle)' });
+                    operators.push({ label: 'toEuler', description: '(x, y, z angles in a chosen order)' });
+                    operators.push({ label: 'slerp', description: '(to another quaternion)' });
+                    operators.push({ label: 'nlerp', description: '(to another quaternion)' });
+                    operators.push({ label: 'angularDistance', description: '(to another quaternion)' });
+                }
+                if (result.length === 3)
+                {
+                    operators.push({ label: 'rotateVector', description: '(by a quaternion)' });
+                    operators.push({ label: 'axisAngle', description: '(quaternion rotating about this axis by an angle)' });
+                    operators.push({ label: 'fromEuler', description: '(quaternion rotating by these x, y, z angles in a chosen order)' });
+                }
+                if (result.length >= 3)
+                {
+                    operators.push({ label: 'transformPoint', description: '(by a transform matrix)' });
+                    operators.push({ label: 'transformDirection', description: '(by a transform matrix)' });
+                    operators.push({ label: 'translation', description: translation(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'scale', description: scale(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'lookAt', description: '(view transform from this eye position to a target, then an up direction)' });
                 }
             }
             else if (result.dimensions === 2)
             {
-                // Matrix operations
-                for (let i = 0; i < result.cols; i++)
+                // Matrix operations.  Operators that take a while for large matrices are described by their results only
+                // for small ones.
+                let describe = (f: (x: Value) => Value, note = '') =>
+                    (result.length <= maxDescribedLength ? f(result).stringify(this.mode, this.format) + note : undefined);
+                for (let i = 0; i < Math.min(result.cols, maxColumnOperators); i++)
+                {
+                    operators.push({ label: 'col' + i, description: result.col(i).stringify(this.mode, this.format)});
+                }
+                operators.push({ label: 'transpose', description: describe(transpose)});
+                if (isSquare(result))
+                {
+                    let inv = (result.length <= maxDescribedLength ? inverse(result) : undefined);
+                    operators.push({ label: 'determinant', description: describe(determinant)});
+                    operators.push({ label: 'inverse', description: inv === undefined ? undefined : inv.valid ? inv.stringify(this.mode, this.format) : '(singular)'});
+                    operators.push({ label: 'trace', description: trace(result).stringify(this.mode, this.format)});
+                }
+                operators.push({ label: 'rank', description: describe(rank)});
+                operators.push({ label: 'qr', description: '(Q orthogonal, R upper triangular)' });
+                operators.push({ label: 'svd', description: '(U, singular values S and V, with columns of U and V orthonormal)' });
+                if (isSquare(result))
+                {
+                    operators.push({ label: 'lu', description: '(P x = L U, L lower and U upper triangular)' });
+                    operators.push({ label: 'cholesky', description: '(x = L L^T, for symmetric positive definite matrices)' });
+                    operators.push({ label: 'eigen', description: '(eigenvalues and eigenvectors of symmetric matrices)' });
+                    operators.push({ label: 'polar', description: '(x = R S, R orthogonal and S symmetric)' });
+                    operators.push({ label: 'orthonormalize', description: describe(orthonormalize) });
+                }
+                if (result.rows >= result.cols)
+                {
+                    operators.push({ label: 'solve', description: '(for x in this x = b, by least squares if there are more rows than columns)' });
+                }
+                operators.push({ label: 'identity', description: describe(identity)});
+                if (result.rows === 3 && result.cols === 3)
+                {
+                    operators.push({ label: 'quaternion', description: matrixToQuaternion(result).stringify(this.mode, this.format) });
+                    operators.push({ label: 'toEuler', description: '(x, y, z angles in a chosen order)' });
+                }
+                // Statistics of the columns as points
+                operators.push({ label: 'centroid', description: describe(centroid) });
+                operators.push({ label: 'boundingBox', description: describe(boundingBox, ' (min, max)') });
+                operators.push({ label: 'covariance', description: describe(covariance) });
+                if (result.cols >= result.rows)
+                {
+                    operators.push({ label: 'bestFitPlane', description: describe(bestFitPlane) });
+                }
+                if (isTransform(result))
                 {
-                    operators.push({ label: 'col' + i, description: result.col(i).stringify(this.mode)});
+                    let inv = affineInverse(result);
+                    operators.push({ label: 'transformPoint', description: '(transform a point)' });
+                    operators.push({ label: 'transformDirection', description: '(transform a direction, without translation)' });
+                    operators.push({ label: 'compose', description: '(with a transform applied before this one)' });
+                    operators.push({ label: 'affineInverse', description: inv.valid ? inv.stringify(this.mode, this.format) : '(singular)' });
+                    operators.push({ label: 'decompose', description: '(translation, rotation quaternion and scale)' });
                 }
-                operators.push({ label: 'transpose', description: transpose(result).stringify(this.mode)});
+            }
+            else
+            {
+                // Scalar operations
+                operators.push({ label: 'scale', description: scale(result).stringify(this.mode, this.format) });
             }
 
             // Common binary operations
@@ -712,8 +1350,43 @@ class ContentProvider implements DocumentLinkProvider
             // Common unary operations
             let unaryOp = (label: string, op: (x: Value) => Value) => 
             {
-                return { label: label, description: op(result).stringify(this.mode) };
+                return { label: label, description: op(result).stringify(this.mode, this.format) };
             };
+
+            // Integer operations, per component
+            if (result.isIntegral(this.format.bits))
+            {
+                let bits = this.format.bits;
+                operators.push({ label: 'and' });
+                operators.push({ label: 'or' });
+                operators.push({ label: 'xor' });
+                operators.push(unaryOp('not', (x: Value) => not(x, bits)));
+                operators.push({ label: 'shl', description: '(shift left by a number of bits)' });
+                operators.push({ label: 'shr', description: '(shift right by a number of bits)' });
+                operators.push({ label: 'rotl', description: '(rotate left by a number of bits)' });
+                operators.push({ label: 'rotr', description: '(rotate right by a number of bits)' });
+                operators.push(unaryOp('popcount', (x: Value) => popcount(x, bits)));
+                operators.push(unaryOp('clz', (x: Value) => clz(x, bits)));
+                operators.push(unaryOp('ctz', (x: Value) => ctz(x, bits)));
+                operators.push({ label: 'mod', description: '(integer remainder)' });
+                operators.push({ label: 'div', description: '(integer division)' });
+                operators.push({ label: 'bits', description: '(extract bits hi:lo)' });
+            }
+
+            // Floating point bit patterns
+            for (const size of [16, 32, 64])
+            {
+                if (result.isIntegral(size))
+                {
+                    operators.push({ label: 'asFloat' + size, description: asFloat(result, size).stringify(ValueMode.Decimal, this.format) });
+                }
+            }
+            for (const size of [16, 32, 64])
+            {
+                let format = { ...this.format, bits: size, hexDigits: size / 4 };
+                operators.push({ label: 'floatBits' + size, description: floatBits(result, size).stringify(ValueMode.Hexadecimal, format) });
+            }
+
             operators.push(unaryOp('square', square));
             operators.push(unaryOp('sqrt', sqrt));
             operators.push(unaryOp('reciprocal', reciprocal));
@@ -731,6 +1404,13 @@ class ContentProvider implements DocumentLinkProvider
             operators.push(unaryOp('rad2deg', rad2deg));
             operators.push(unaryOp('deg2rad', deg2rad));
 
+            // Macros
+            let macros = this.getMacros();
+            macros.forEach((macro: Step[], name: string) =>
+            {
+                operators.push({ label: name, description: '(macro: ' + describeSteps(macro) + ')' });
+            });
+
             // Choose an operator
             let operandDesc = '';
             switch (result.dimensions)
@@ -739,31 +1419,112 @@ class ContentProvider implements DocumentLinkProvider
                 case 1: operandDesc = 'Vector' + result.rows; break;
                 case 2: operandDesc = 'Matrix' + result.rows + 'x' + result.cols; break;
             }
-            let operator = await window.showQuickPick(operators, {placeHolder: operandDesc + ' operator'});
+            let step = steps.shift();
+            if (step === undefined)
+            {
+                let picked = await window.showQuickPick(operators, {placeHolder: operandDesc + ' operator'});
+                if (picked === undefined)
+                {
+                    // Clear the state
+                    this.clear();
+                    return;
+                }
+                step = { operator: picked.label, operands: [] };
+            }
+
+            // Macros are replaced by their steps
+            for (let depth = 0; macros.has(step.operator); depth++)
+            {
+                if (depth === maxMacroDepth)
+                {
+                    this.report('error, macro ' + step.operator + ' is nested too deeply');
+                    this.clear();
+                    return;
+                }
+                steps.unshift(...(macros.get(step.operator) as Step[]));
+                step = steps.shift() as Step;
+            }
+            let label = step.operator;
+            let operator = operators.find((operator: QuickPickItem) => operator.label === label);
             if (operator === undefined)
             {
-                // Clear the state
+                this.report('error, ' + label + ' does not apply to ' + result.shape);
                 this.clear();
                 return;
             }
 
-            // Save the result and operator
-            this.operator = operator.label;
+            // Go back to the value before the last operator
+            if (operator.label === 'undo')
+            {
+                let snapshot = this.previous.pop() as Snapshot;
+                result = snapshot.value;
+                this.mode = snapshot.mode;
+                this.format = snapshot.format;
+                this.sourceFormat = snapshot.sourceFormat;
+                this.sourceConstructor = snapshot.sourceConstructor;
+                this.operator = '';
+                this.operand = result;
+                this.operands = [];
+                this.chain.steps.pop();
+                continue;
+            }
+
+            // Save the result and operator, and how to go back to them.  Operators that ask for input are only recorded once
+            // it is given, so that cancelling them leaves nothing to undo.
+            let snapshot: Snapshot = { value: result, mode: this.mode, format: this.format, sourceFormat: this.sourceFormat, sourceConstructor: this.sourceConstructor };
+            let record = () =>
+            {
+                this.previous.push(snapshot);
+                this.chain.steps.push({ operator: label, operands: [] });
+            };
+            if (inputOperators.indexOf(operator.label) < 0)
+            {
+                record();
+            }
+            this.operator = operator.label;
             this.operand = result;
+            this.operands = [];
 
             // Handle unary operators
             switch (operator.label)
             {
                 // Vector component selection
-                case 'x': result = Value.scalar(result[0]); continue;
-                case 'y': result = Value.scalar(result[1]); continue;
-                case 'z': result = Value.scalar(result[2]); continue;
-                case 'w': result = Value.scalar(result[3]); continue;
+                case 'x': result = result.row(0); continue;
+                case 'y': result = result.row(1); continue;
+                case 'z': result = result.row(2); continue;
+                case 'w': result = result.row(3); continue;
                 case 'xyz': result = xyz(result); continue;
                 
                 case 'length': result = magnitude(result); continue;
                 case 'normalize': result = normalize(result); continue;
                 case 'transpose': result = transpose(result); continue;
+                case 'rank': result = rank(result); continue;
+
+                // Statistics
+                case 'sum': result = sum(result); continue;
+                case 'mean': result = mean(result); continue;
+                case 'min': result = min(result); continue;
+                case 'max': result = max(result); continue;
+                case 'median': result = median(result); continue;
+                case 'stddev': result = standardDeviation(result); continue;
+                case 'histogram':
+                {
+                    let bins = histogramBins(result);
+                    let counts = histogram(result, Value.scalar(bins));
+                    this.logHistogram(result, counts);
+                    result = counts;
+                    continue;
+                }
+                case 'centroid': result = centroid(result); continue;
+                case 'boundingBox': result = boundingBox(result); continue;
+                case 'covariance': result = covariance(result); continue;
+                case 'bestFitPlane': result = bestFitPlane(result); continue;
+                case 'identity': result = identity(result); continue;
+
+                // Square matrix operations
+                case 'determinant': result = determinant(result); continue;
+                case 'inverse': result = inverse(result); continue;
+                case 'trace': result = trace(result); continue;
 
                 case 'square': result = square(result); continue;
                 case 'sqrt': result = sqrt(result); continue;
@@ -782,18 +1543,145 @@ class ContentProvider implements DocumentLinkProvider
                 case 'rad2deg': result = rad2deg(result); continue;
                 case 'deg2rad': result = deg2rad(result); continue;
                 case 'rotation': result = quaternionToMatrix(result); continue;
+                case 'translation': result = translation(result); continue;
+                case 'scale': result = scale(result); continue;
+
+                // Quaternions
+                case 'conjugate': result = conjugate(result); continue;
+                case 'quatInverse': result = quaternionInverse(result); continue;
+                case 'toAxisAngle': result = toAxisAngle(result); continue;
+                case 'quaternion': result = matrixToQuaternion(result); continue;
+                case 'toEuler':
+                case 'fromEuler':
+                {
+                    let rotation = result;
+                    let label = operator.label;
+                    let convert = (order: string) => (label === 'toEuler' ? toEuler(rotation, order) : eulerToQuaternion(rotation, order));
+                    let order = await this.chooseEulerOrder(convert);
+                    if (order === undefined)
+                    {
+                        this.clear();
+                        return;
+                    }
+                    result = convert(order);
+                    continue;
+                }
+
+                // Transforms
+                case 'affineInverse': result = affineInverse(result); continue;
+                case 'decompose':
+                {
+                    let parts = decompose(result);
+                    if (parts === undefined)
+                    {
+                        result = Value.error('zero scale');
+                        continue;
+                    }
+
+                    let part = await this.choosePart([['translation', parts.translation], ['rotation', parts.rotation], ['scale', parts.scale]], 'Part of the transform');
+                    if (part === undefined)
+                    {
+                        this.clear();
+                        return;
+                    }
+                    result = part;
+                    continue;
+                }
+
+                // Matrix decompositions
+                case 'lu':
+                case 'qr':
+                case 'cholesky':
+                case 'eigen':
+                case 'svd':
+                case 'polar':
+                {
+                    let parts: [string, Value][]|Value;
+                    switch (operator.label)
+                    {
+                        case 'lu': parts = luDecomposition(result); break;
+                        case 'qr': parts = qrDecomposition(result); break;
+                        case 'cholesky': parts = choleskyDecomposition(result); break;
+                        case 'eigen': parts = eigenDecomposition(result); break;
+                        case 'svd': parts = singularValueDecomposition(result); break;
+                        default: parts = polarDecomposition(result); break;
+                    }
+                    if (parts instanceof Value)
+                    {
+                        result = parts;
+                        continue;
+                    }
+                    let part = await this.choosePart(parts, 'Part of the ' + operator.label + ' decomposition');
+                    if (part === undefined)
+                    {
+                        this.clear();
+                        return;
+                    }
+                    result = part;
+                    continue;
+                }
+                case 'orthonormalize': result = orthonormalize(result); continue;
+                case 'not': result = not(result, this.format.bits); continue;
+                case 'popcount': result = popcount(result, this.format.bits); continue;
+                case 'clz': result = clz(result, this.format.bits); continue;
+                case 'ctz': result = ctz(result, this.format.bits); continue;
+                case 'asFloat16':
+                case 'asFloat32':
+                case 'asFloat64':
+                {
+                    let size = parseInt(operator.label.substr(7));
+                    this.describeFloats(result, size);
+                    result = asFloat(result, size);
+                    this.mode = ValueMode.Decimal;
+                    continue;
+                }
+                case 'floatBits16':
+                case 'floatBits32':
+                case 'floatBits64':
+                {
+                    let size = parseInt(operator.label.substr(9));
+                    result = floatBits(result, size);
+                    this.describeFloats(result, size);
+                    this.setIntegerFormat({ bits: size, hexDigits: size / 4 });
+                    this.mode = ValueMode.Hexadecimal;
+                    continue;
+                }
+                case 'bits':
+                {
+                    let field = await this.inputBitField();
+                    if (field === undefined)
+                    {
+                        this.operator = '';
+                        continue;
+                    }
+                    record();
+                    result = bitField(result, field[0], field[1]);
+                    continue;
+                }
 
                 // Output
                 case 'copy':
-                    vscode.env.clipboard.writeText(result.stringify(this.mode));
+                    vscode.env.clipboard.writeText(result.stringify(this.mode, this.format));
                     this.clear();
                     break;
                     
                 // Output
                 case 'push':
-                    this.stack.push(result);
+                    this.setStack([...this.stack, result]);
+                    this.clear();
+                    break;
+
+                case 'store':
+                {
+                    let name = await this.inputVariableName('Name to store ' + resultStr + ' as');
+                    if (name !== undefined)
+                    {
+                        this.variables.set(name, result);
+                        this.saveValues();
+                    }
                     this.clear();
                     break;
+                }
 
                 case 'append':
                     
@@ -832,9 +1720,10 @@ class ContentProvider implements DocumentLinkProvider
                         }
 
                         // Replace the source text with the result
+                        let replacement = this.replacement(result);
                         let edited = await window.activeTextEditor.edit(function(editBuilder: TextEditorEdit)
                         {
-                            editBuilder.replace(range, resultStr);
+                            editBuilder.replace(range, replacement);
                         });
                         if (edited)
                         {
@@ -847,8 +1736,48 @@ class ContentProvider implements DocumentLinkProvider
                     return;
 
                 // Mode
+                case 'format':
+                {
+                    // Apply the option to the replacement too, so that it overrides the source's style
+                    let option = await this.chooseFormat(result);
+                    if (option === undefined)
+                    {
+                        this.operator = '';
+                        continue;
+                    }
+                    record();
+                    this.format = applyFormatOption(this.format, option) || this.format;
+                    this.sourceFormat = applyFormatOption(this.sourceFormat, option) || this.sourceFormat;
+                    if (option.startsWith('brackets') && this.sourceConstructor !== undefined && this.sourceConstructor.prefix.length === 0)
+                    {
+                        this.sourceConstructor = undefined;
+                    }
+                    continue;
+                }
                 case 'decimal': this.mode = ValueMode.Decimal; continue;
-                case 'hex32': this.mode = ValueMode.Hexadecimal; continue;
+                case 'binary': this.mode = ValueMode.Binary; continue;
+                case 'hex32':
+                case 'hex64':
+                    this.setIntegerFormat({ bits: parseInt(operator.label.substr(3)), hexDigits: parseInt(operator.label.substr(3)) / 4 });
+                    this.mode = ValueMode.Hexadecimal;
+                    continue;
+                case 'width':
+                {
+                    let bits = await this.inputWidth(result);
+                    if (bits === undefined)
+                    {
+                        this.operator = '';
+                        continue;
+                    }
+                    record();
+                    this.setIntegerFormat({ bits: bits, hexDigits: Math.ceil(bits / 4) });
+                    continue;
+                }
+                case 'signed':
+                case 'unsigned':
+                    this.setIntegerFormat({ signedness: operator.label });
+                    this.mode = ValueMode.Decimal;
+                    continue;
 
                 default:
                     // Special case: column operator
@@ -868,9 +1797,11 @@ class ContentProvider implements DocumentLinkProvider
             // Show the current value and operator
             if (this.operand.length > 0)
             {
-                this.report(this.operand.stringify(this.mode) + ' ' + this.operator + ' ...');
+                this.report(this.operand.stringify(this.mode, this.format) + ' ' + this.operator + ' ...');
             }
 
+            // Continue with the operands that the step gives
+            await this.giveOperands(step.operands, steps);
             return;
         }
 
@@ -878,56 +1809,666 @@ class ContentProvider implements DocumentLinkProvider
         this.clear();
     }
 
+    // Changes how integers are written, both in the current format and in the replacement
+    setIntegerFormat(change: { bits?: number, hexDigits?: number, signedness?: string })
+    {
+        this.format = { ...this.format, ...change };
+        this.sourceFormat = { ...this.sourceFormat, ...change };
+    }
+
+    // Lets the user choose the width of integers that result fits in.  Returns the number of bits, or undefined if none was chosen.
+    async inputWidth(result: Value): Promise<number|undefined>
+    {
+        let input = await window.showInputBox({
+            prompt: 'Integer width in bits',
+            value: this.format.bits.toString(),
+            validateInput: (value: string) =>
+            {
+                if (value.trim().search(/^\d+$/) < 0 || parseInt(value) < 1 || parseInt(value) > 1024)
+                {
+                    return 'Enter a number of bits from 1 to 1024';
+                }
+                return (result.isIntegral(parseInt(value)) ? undefined : result.stringify(ValueMode.Decimal, this.format) + ' does not fit in ' + parseInt(value) + ' bits');
+            }
+        });
+        return (input === undefined ? undefined : parseInt(input));
+    }
+
+    // Writes the sign, exponent and mantissa of floating point numbers of the given size to the output channel,
+    // from the bits in each component of bits
+    describeFloats(bits: Value, size: number)
+    {
+        for (let i = 0; i < bits.length; i++)
+        {
+            this.channel.appendLine('float' + size + ' ' + describeFloat(bits.integer(i), size));
+        }
+    }
+
+    // Lets the user choose the order of Euler angle rotations, showing the result of convert for each.
+    // Returns the order, or undefined if none was chosen.
+    async chooseEulerOrder(convert: (order: string) => Value): Promise<string|undefined>
+    {
+        let picks = eulerOrders.map((order: string) => ({ label: order, description: convert(order).stringify(this.mode, this.format) }));
+        let pick = await window.showQuickPick(picks, { placeHolder: 'Order of rotations about the x, y and z axes, first to last' });
+        return (pick === undefined ? undefined : pick.label);
+    }
+
+    // Lets the user input a scalar, which can be an expression like in inputOperand.
+    // Returns the scalar, or undefined if none was input.
+    async inputScalar(prompt: string): Promise<Value|undefined>
+    {
+        let evaluateScalar = (text: string) => evaluate(text, [...this.stack], this.getTypePrefixes(), this.variables);
+        let input = await window.showInputBox({
+            prompt: prompt,
+            validateInput: (text: string) =>
+            {
+                let value = evaluateScalar(text).value;
+                return (value.valid && value.dimensions === 0 ? undefined : 'Enter a scalar or an expression giving one');
+            }
+        });
+        return (input === undefined ? undefined : evaluateScalar(input).value);
+    }
+
+    // Logs the parts of a decomposition and lets the user choose one to continue with, or push them all onto the stack.
+    // Returns the part chosen, or undefined if none was.
+    async choosePart(parts: [string, Value][], placeHolder: string): Promise<Value|undefined>
+    {
+        parts.forEach((part: [string, Value]) => this.channel.appendLine(part[0] + ' ' + part[1].stringify(this.mode, this.format)));
+        let picks: QuickPickItem[] = parts.map((part: [string, Value]) => ({ label: part[0], description: part[1].stringify(this.mode, this.format) }));
+        let names = parts.map((part: [string, Value]) => part[0]).join(', ');
+        picks.push({ label: 'push all', description: '(push ' + names + ' onto the stack)' });
+        let pick = await window.showQuickPick(picks, {placeHolder: placeHolder});
+        if (pick === undefined)
+        {
+            return undefined;
+        }
+        if (pick.label === 'push all')
+        {
+            this.setStack([...this.stack, ...parts.map((part: [string, Value]) => part[1])]);
+            this.report('pushed ' + names);
+            return undefined;
+        }
+        let label = pick.label;
+        let chosen = parts.find((part: [string, Value]) => part[0] === label);
+        return (chosen === undefined ? undefined : chosen[1]);
+    }
+
+    // Logs the bins of a histogram of x, with their ranges, counts and a bar for each
+    logHistogram(x: Value, counts: Value)
+    {
+        let lo = least(x);
+        let width = (greatest(x) - lo) / counts.length;
+        let most = greatest(counts);
+        counts.forEach((count: number, i: number) =>
+        {
+            let range = '[' + (lo + i * width) + ', ' + (lo + (i + 1) * width) + (i === counts.length - 1 ? ']' : ')');
+            this.channel.appendLine(range + ' ' + count + ' ' + '#'.repeat(Math.round(40 * count / most)));
+        });
+    }
+
+    // Lets the user choose a range of bits to extract, written hi:lo, eg. 7:4.  Returns [hi, lo], or undefined if none was chosen.
+    async inputBitField(): Promise<[number, number]|undefined>
+    {
+        let input = await window.showInputBox({
+            prompt: 'Bits to extract, hi:lo',
+            placeHolder: '7:0',
+            validateInput: (value: string) =>
+            {
+                let match = value.match(/^\s*(\d+)\s*:\s*(\d+)\s*$/);
+                return (match !== null && parseInt(match[1]) >= parseInt(match[2]) ? undefined : 'Enter the highest and lowest bits, eg. 7:0');
+            }
+        });
+        let match = (input === undefined ? null : input.match(/^\s*(\d+)\s*:\s*(\d+)\s*$/));
+        return (match === null ? undefined : [parseInt(match[1]), parseInt(match[2])]);
+    }
+
+    // Returns a result written the same way as the source of the current chain of operations, for replace
+    replacement(result: Value): string
+    {
+        return result.stringify(this.mode, this.sourceFormat, this.sourceConstructor);
+    }
+
+    // Replaces the stack, saving it and showing it in the values view
+    setStack(stack: Value[])
+    {
+        this.stack = stack;
+        this.saveValues();
+    }
+
+    // Saves the stack and variables in the workspace state, and shows them in the values view and worksheet lines
+    saveValues()
+    {
+        let variables: [string, StoredValue][] = [];
+        this.variables.forEach((value: Value, name: string) => variables.push([name, value.toStored()]));
+        this.state.update('values', { stack: this.stack.map((value: Value) => value.toStored()), variables: variables });
+        this.valuesChanged.fire(undefined);
+
+        // Worksheet lines can use the variables
+        window.visibleTextEditors.forEach((editor: TextEditor) => this.decorate(editor));
+    }
+
+    // Lets the user input a name for a variable.  Returns the name, or undefined if none was input.
+    async inputVariableName(prompt: string, value?: string): Promise<string|undefined>
+    {
+        return window.showInputBox({
+            prompt: prompt,
+            value: value,
+            validateInput: (name: string) =>
+                (isVariableName(name) ? undefined : 'Enter a name of letters, digits and underscores that is not a function, constant or pop')
+        });
+    }
+
+    // Values view of the stack, top first, and the variables in order of their names
+    getChildren(item?: ValueItem): ValueItem[]
+    {
+        if (item === undefined)
+        {
+            return [{ group: 'stack' }, { group: 'variables' }];
+        }
+        if (item.index !== undefined || item.name !== undefined)
+        {
+            return [];
+        }
+        if (item.group === 'stack')
+        {
+            return this.stack.map((value: Value, i: number) => ({ group: 'stack', index: i })).reverse();
+        }
+        let names: string[] = [];
+        this.variables.forEach((value: Value, name: string) => names.push(name));
+        return names.sort().map((name: string) => ({ group: 'variables', name: name }));
+    }
+
+    getTreeItem(item: ValueItem): TreeItem
+    {
+        if (item.index !== undefined)
+        {
+            let value = this.stack[item.index];
+            let treeItem = new TreeItem(value.stringify(ValueMode.Decimal, this.getFormat()));
+            treeItem.description = value.shape;
+            treeItem.contextValue = 'stackValue';
+            return treeItem;
+        }
+        if (item.name !== undefined)
+        {
+            let value = this.variables.get(item.name) as Value;
+            let treeItem = new TreeItem(item.name);
+            treeItem.description = value.stringify(ValueMode.Decimal, this.getFormat());
+            treeItem.tooltip = value.shape;
+            treeItem.contextValue = 'variable';
+            return treeItem;
+        }
+        let treeItem = new TreeItem(item.group === 'stack' ? 'Stack' : 'Variables', TreeItemCollapsibleState.Expanded);
+        treeItem.contextValue = 'group';
+        return treeItem;
+    }
+
+    // Returns the value of an item in the values view, or undefined if it is a group
+    valueOf(item: ValueItem): Value|undefined
+    {
+        return (item.index !== undefined ? this.stack[item.index] : item.name !== undefined ? this.variables.get(item.name) : undefined);
+    }
+
+    // Inputs the value of an item in the values view as an operand, the same as inputOperand
+    async useValue(item: ValueItem)
+    {
+        let value = this.valueOf(item);
+        if (value === undefined)
+        {
+            return;
+        }
+        if (this.operator === '')
+        {
+            this.clear();
+        }
+        await this.setOperandStr(value.stringify(ValueMode.Decimal, widenFormat(defaultFormat, value)), [], item.name);
+    }
+
+    // Renames a variable, or gives a value on the stack a name, moving it to the variables
+    async renameValue(item: ValueItem)
+    {
+        let value = this.valueOf(item);
+        if (value === undefined)
+        {
+            return;
+        }
+        let name = await this.inputVariableName(item.name === undefined ? 'Name to store the value as' : 'New name for ' + item.name, item.name);
+        if (name === undefined)
+        {
+            return;
+        }
+        this.deleteValue(item);
+        this.variables.set(name, value);
+        this.saveValues();
+    }
+
+    // Removes a value from the stack or the variables
+    deleteValue(item: ValueItem)
+    {
+        if (item.index !== undefined)
+        {
+            this.stack.splice(item.index, 1);
+        }
+        else if (item.name !== undefined)
+        {
+            this.variables.delete(item.name);
+        }
+        this.saveValues();
+    }
+
+    // Values view dragging of values on the stack
+    handleDrag(items: ValueItem[], dataTransfer: DataTransfer)
+    {
+        dataTransfer.set(valuesMimeType, new DataTransferItem(items));
+    }
+
+    // Moves values on the stack dropped on another value to just above it in the view, or dropped on the stack to the top
+    handleDrop(target: ValueItem|undefined, dataTransfer: DataTransfer)
+    {
+        let transferred = dataTransfer.get(valuesMimeType);
+        if (transferred === undefined || target === undefined || target.group !== 'stack')
+        {
+            return;
+        }
+        let moved: number[] = [];
+        (transferred.value as ValueItem[]).forEach((item: ValueItem) =>
+        {
+            if (item.index !== undefined)
+            {
+                moved.push(item.index);
+            }
+        });
+        if (moved.length === 0 || (target.index !== undefined && moved.indexOf(target.index) >= 0))
+        {
+            return;
+        }
+        moved.sort((a: number, b: number) => a - b);
+        let last = (target.index === undefined ? this.stack.length - 1 : target.index);
+        let rest: Value[] = [];
+        let position = 0;
+        this.stack.forEach((value: Value, i: number) =>
+        {
+            if (moved.indexOf(i) < 0)
+            {
+                rest.push(value);
+                position += (i <= last ? 1 : 0);
+            }
+        });
+        rest.splice(position, 0, ...moved.map((i: number) => this.stack[i]));
+        this.setStack(rest);
+    }
+
+    // Moves a value on the stack towards the top if up is true, or else towards the bottom
+    moveValue(item: ValueItem, up: boolean)
+    {
+        if (item.index === undefined)
+        {
+            return;
+        }
+        let i = item.index;
+        let j = (up ? i + 1 : i - 1);
+        if (j < 0 || j >= this.stack.length)
+        {
+            return;
+        }
+        let stack = [...this.stack];
+        [stack[i], stack[j]] = [stack[j], stack[i]];
+        this.setStack(stack);
+    }
+
+    // Records the current chain of operations in the history if any operators were applied to it, and starts another.
+    // If a macro is being recorded, it is saved, and savingMacro waits for the user to name it.
+    endChain()
+    {
+        if (this.recording !== undefined)
+        {
+            let steps = this.chain.steps.slice(this.recording);
+            this.recording = (steps.length === 0 ? 0 : undefined);
+            if (steps.length > 0)
+            {
+                // Saving waits for a name, so the chain ends without it, but the next chain waits for it to be saved, and a
+                // failure to save is still reported
+                this.savingMacro = this.saveMacro(steps).catch((error: Error) => this.report('error, could not save the macro: ' + error.message));
+            }
+        }
+        if (this.chain.steps.length > 0)
+        {
+            this.history.push(this.chain);
+            if (this.history.length > historyLength)
+            {
+                this.history.shift();
+            }
+            this.historyChanged.fire(undefined);
+        }
+        this.chain = { source: '', steps: [], result: '' };
+        this.previous = [];
+    }
+
+    // Applies the steps of a chain from the history to an operand, giving binary operators the same second operands as
+    // before.  If the operand is the chain's own first operand and the document still has it where it was, replace writes
+    // over it again.  Operators that ask for input, eg. format or slerp, ask again.
+    async replay(chain: Chain, operandStr: string)
+    {
+        this.clear();
+        let editor = window.activeTextEditor;
+        if (chain.range !== undefined && operandStr === chain.source && editor !== undefined &&
+            editor.document.uri.toString() === chain.uri && editor.document.getText(chain.range) === chain.source)
+        {
+            await this.setOperand(chain.range, [...chain.steps]);
+        }
+        else
+        {
+            await this.setOperandStr(operandStr, [...chain.steps]);
+        }
+    }
+
+    // Lets the user input another operand, eg. a value, expression or pop, to apply a chain from the history to
+    async reapply(chain: Chain)
+    {
+        let editor = window.activeTextEditor;
+        let selection = (editor !== undefined && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : undefined);
+        let input = await window.showInputBox({
+            prompt: 'Operand to apply ' + describeSteps(chain.steps) + ' to',
+            placeHolder: '(1, 2, 3), pop or an expression',
+            value: selection,
+            validateInput: (value: string) =>
+            {
+                let evaluation = evaluate(value, [...this.stack], this.getTypePrefixes(), this.variables);
+                return (evaluation.value.valid ? undefined : evaluation.error);
+            }
+        });
+        let value = (input === undefined ? undefined : this.evaluateInput(input));
+        if (value !== undefined)
+        {
+            await this.replay(chain, value);
+        }
+    }
+
+    // Returns the macros from the settings by name, as steps
+    getMacros(): Map<string, Step[]>
+    {
+        let macros = new Map<string, Step[]>();
+        let settings = workspace.getConfiguration('vectorcalculator').get<{ [name: string]: MacroStep[] }>('macros', {});
+        for (const name of Object.keys(settings))
+        {
+            let steps = settings[name];
+            if (Array.isArray(steps) && steps.length > 0)
+            {
+                macros.set(name, steps.map((step: MacroStep) =>
+                {
+                    if (typeof step === 'string')
+                    {
+                        return { operator: step, operands: [] };
+                    }
+                    let inputs = (step.operand === undefined ? [] : typeof step.operand === 'string' ? [step.operand] : step.operand);
+                    return { operator: step.operator, operands: inputs.map((input: string) => ({ input: input })) };
+                }));
+            }
+        }
+        return macros;
+    }
+
+    // Starts recording the operators applied next as a macro, or stops and saves it.  Recording stops by itself at the end
+    // of the chain of operations.
+    async recordMacro()
+    {
+        if (this.recording === undefined)
+        {
+            this.recording = this.chain.steps.length;
+            this.report('recording a macro until the end of the chain of operations');
+            return;
+        }
+        let steps = this.chain.steps.slice(this.recording);
+        this.recording = undefined;
+        if (steps.length === 0)
+        {
+            this.report('stopped recording, there were no operators to save');
+            return;
+        }
+        await this.saveMacro(steps);
+    }
+
+    // Lets the user name a macro of steps, and saves it in the workspace settings, or the user settings without a workspace.
+    // Operators keep the expressions that their operands were input as, eg. pop, or else their values.
+    async saveMacro(steps: Step[])
+    {
+        let name = await window.showInputBox({
+            prompt: 'Name to save the macro ' + describeSteps(steps) + ' as',
+            validateInput: (name: string) => (name.search(/^[a-zA-Z_][a-zA-Z0-9_]*$/) >= 0 ? undefined : 'Enter a name of letters, digits and underscores')
+        });
+        if (name === undefined)
+        {
+            return;
+        }
+        // Add it to the macros already in the settings it is saved in
+        let config = workspace.getConfiguration('vectorcalculator');
+        let target = (workspace.workspaceFolders === undefined ? ConfigurationTarget.Global : ConfigurationTarget.Workspace);
+        let inspected = config.inspect<{ [name: string]: MacroStep[] }>('macros');
+        let saved = (inspected === undefined ? undefined : target === ConfigurationTarget.Global ? inspected.globalValue : inspected.workspaceValue);
+        let macros = { ...saved };
+        macros[name] = steps.map((step: Step) =>
+        {
+            let inputs = step.operands.map((operand: StepOperand) => (operand.input !== undefined ? operand.input : operand.value as string));
+            return (inputs.length === 0 ? step.operator : { operator: step.operator, operand: (inputs.length === 1 ? inputs[0] : inputs) });
+        });
+        await config.update('macros', macros, target);
+        this.report('saved macro ' + name);
+    }
+
+    // Applies a macro to the selection, or the value at the caret, the same as apply.  If no name is given the user chooses one.
+    async runMacro(name?: string)
+    {
+        if (name === undefined)
+        {
+            let picks: QuickPickItem[] = [];
+            this.getMacros().forEach((macro: Step[], name: string) => picks.push({ label: name, description: describeSteps(macro) }));
+            if (picks.length === 0)
+            {
+                this.report('error, there are no macros in the vectorcalculator.macros setting');
+                return;
+            }
+            let picked = await window.showQuickPick(picks, { placeHolder: 'Macro' });
+            if (picked === undefined)
+            {
+                return;
+            }
+            name = picked.label;
+        }
+        await this.apply([name]);
+    }
+
     // Reset the state, cancelling any pending operator
     clear()
     {
+        this.endChain();
         this.operand = Value.invalid;
+        this.operands = [];
         this.operator = '';
         this.sourceString = '';
         this.mode = ValueMode.Decimal;
+        this.format = this.getFormat();
+        this.sourceConstructor = undefined;
+        this.sourceFormat = this.format;
     }
 
-    // Currently selected operand / operator
+    // Currently selected operand / operator, and the operands after the first that an operator with more than two has so far
     operand: Value = Value.invalid;
+    operands: Value[] = [];
     operator: string = '';
     mode: ValueMode = ValueMode.Decimal;
+    format: Format = defaultFormat;
 
-    // Stack of values that can be accessed through pop in the input value interface
+    // Stack of values that can be accessed through pop in the input value interface, and named variables, saved in state
     stack: Value[] = [];
+    variables = new Map<string, Value>();
+    state: Memento;
+
+    // Values on the stack can be dragged within the values view
+    dropMimeTypes = [valuesMimeType];
+    dragMimeTypes = [valuesMimeType];
+
+    // Notifies the values view of changes to the stack and variables
+    valuesChanged = new EventEmitter<ValueItem|undefined>();
+    onDidChangeTreeData: Event<ValueItem|undefined> = this.valuesChanged.event;
+
+    // The current chain of operations, the values before each of its operators, and past chains, oldest first
+    chain: Chain = { source: '', steps: [], result: '' };
+    previous: Snapshot[] = [];
+    history: Chain[] = [];
+
+    // While recording a macro, the number of steps in the current chain before recording began
+    recording: number|undefined = undefined;
+
+    // Saving of the last macro recorded to the end of a chain, which waits for the user to name it
+    savingMacro: Promise<void>|undefined = undefined;
+
+    // Notifies the history view of new chains
+    historyChanged = new EventEmitter<Chain|undefined>();
 
     // Location in the document of the first operand of the current chain of operations
     sourceRange: Range = new Range(new Position(0, 0), new Position(0, 0));
-    sourceString: String = '';
+    sourceString: string = '';
+    sourceConstructor: Constructor|undefined = undefined;
+    sourceFormat: Format = defaultFormat;
 
     // Styling
     scalarDecorationType: TextEditorDecorationType;
     vectorDecorationType: TextEditorDecorationType;
     matrixDecorationType: TextEditorDecorationType;
+    resultDecorationType: TextEditorDecorationType;
+    warningDecorationType: TextEditorDecorationType;
+
+    // Warnings about parts of values that are ignored, by document
+    diagnostics: DiagnosticCollection;
+
+    // Parsed lines and the version they were parsed from, by document URI
+    caches = new Map<string, LineCache>();
+    versions = new Map<string, number>();
 
     // Console output
     channel: OutputChannel;
 }
 
+// Writes operators and their second operands, eg. cross (0, 1, 0) normalize
+function describeSteps(steps: Step[]): string
+{
+    let words: string[] = [];
+    steps.forEach((step: Step) =>
+    {
+        words.push(step.operator);
+        step.operands.forEach((operand: StepOperand) => words.push(operand.value !== undefined ? operand.value : operand.input as string));
+    });
+    return words.join(' ');
+}
+
+// History view of the chains of operations, most recent first
+class HistoryProvider implements TreeDataProvider<Chain>
+{
+    constructor(provider: ContentProvider)
+    {
+        this.provider = provider;
+        this.onDidChangeTreeData = provider.historyChanged.event;
+    }
+
+    getChildren(chain?: Chain): Chain[]
+    {
+        return (chain === undefined ? [...this.provider.history].reverse() : []);
+    }
+
+    getTreeItem(chain: Chain): TreeItem
+    {
+        let treeItem = new TreeItem(chain.source + ' ' + describeSteps(chain.steps));
+        treeItem.description = '= ' + chain.result;
+        if (chain.uri !== undefined && chain.range !== undefined)
+        {
+            treeItem.tooltip = workspace.asRelativePath(Uri.parse(chain.uri)) + ':' + (chain.range.start.line + 1) + ':' + (chain.range.start.character + 1);
+        }
+        treeItem.contextValue = 'chain';
+        return treeItem;
+    }
+
+    provider: ContentProvider;
+    onDidChangeTreeData: Event<Chain|undefined>;
+}
+
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
 export function activate(context: ExtensionContext)
 {
-    const provider = new ContentProvider();
+    const provider = new ContentProvider(context.workspaceState);
 
-	// register document link provider for scheme
-	context.subscriptions.push(Disposable.from(
-        languages.registerDocumentLinkProvider({ language:'plaintext' }, provider)
-	));
+    // register document link, hover and code action providers for the languages in the settings, and again whenever they change
+    let registerLinkProvider = () =>
+    {
+        let languageIds = workspace.getConfiguration('vectorcalculator').get<string[]>('languages', ['plaintext']);
+        let selector = languageIds.map((language: string) => ({ language: language }));
+        return Disposable.from(languages.registerDocumentLinkProvider(selector, provider), languages.registerHoverProvider(selector, provider),
+            languages.registerCodeActionsProvider(selector, provider, { providedCodeActionKinds: [CodeActionKind.QuickFix] }));
+    };
+    let linkProvider = registerLinkProvider();
+    context.subscriptions.push({ dispose: () => linkProvider.dispose() });
+    context.subscriptions.push(workspace.onDidChangeConfiguration((e: ConfigurationChangeEvent) =>
+    {
+        if (e.affectsConfiguration('vectorcalculator.languages'))
+        {
+            linkProvider.dispose();
+            linkProvider = registerLinkProvider();
+        }
+        if (e.affectsConfiguration('vectorcalculator'))
+        {
+            provider.caches.clear();
+            provider.onDidChangeVisibleTextEditors(window.visibleTextEditors);
+        }
+    }));
 
     // Register command callbacks
-    context.subscriptions.push(commands.registerCommand('vectorcalculator.setOperand', (begin: Position, end: Position) => {
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.setOperand', (begin: Position, end: Position, operator?: string) => {
         let range = new Range(new Position(begin.line, begin.character), new Position(end.line, end.character));
-        provider.setOperand(range);
+        provider.setOperand(range, operator === undefined ? [] : [{ operator: operator, operands: [] }]);
+    }));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.apply', (args?: { operator?: string|string[], operand?: string|string[] }) =>
+    {
+        // Without arguments, eg. from the command palette, show the operator list
+        let operator = (args === undefined || args.operator === undefined ? [] : args.operator);
+        let operand = (args === undefined || args.operand === undefined ? [] : args.operand);
+        provider.apply(typeof operator === 'string' ? [operator] : operator, typeof operand === 'string' ? [operand] : operand);
     }));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.applyToSelection', (args?: { operator?: string, operand?: string }) =>
+        provider.applyToSelection(args === undefined ? undefined : args.operator, args === undefined ? undefined : args.operand)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.recordMacro', () => provider.recordMacro()));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.runMacro', (args?: { name?: string }) =>
+        provider.runMacro(args === undefined ? undefined : args.name)));
+
+    // Register the values view and the commands on its items
+    context.subscriptions.push(window.createTreeView('vectorcalculator.values', { treeDataProvider: provider, dragAndDropController: provider, canSelectMany: true }));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.useValue', (item: ValueItem) => provider.useValue(item)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.renameValue', (item: ValueItem) => provider.renameValue(item)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.deleteValue', (item: ValueItem) => provider.deleteValue(item)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.moveValueUp', (item: ValueItem) => provider.moveValue(item, true)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.moveValueDown', (item: ValueItem) => provider.moveValue(item, false)));
+
+    // Register the history view and the commands on its chains
+    context.subscriptions.push(window.registerTreeDataProvider('vectorcalculator.history', new HistoryProvider(provider)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.rerunChain', (chain: Chain) => provider.replay(chain, chain.source)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.copyChainResult', (chain: Chain) => vscode.env.clipboard.writeText(chain.result)));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.reapplyChain', (chain: Chain) => provider.reapply(chain)));
     context.subscriptions.push(commands.registerCommand('vectorcalculator.inputOperand', () => provider.inputOperand()));
+    context.subscriptions.push(commands.registerCommand('vectorcalculator.writeResult', () => provider.writeResult()));
+
+    // Remove warnings and parsed lines for closed documents
+    context.subscriptions.push(provider.diagnostics);
+    context.subscriptions.push(workspace.onDidCloseTextDocument((document: TextDocument) =>
+    {
+        provider.diagnostics.delete(document.uri);
+        provider.caches.delete(document.uri.toString());
+        provider.versions.delete(document.uri.toString());
+    }));
+
+    // Forget parsed lines when they change, and decorate lines as they become visible
+    context.subscriptions.push(workspace.onDidChangeTextDocument((event: TextDocumentChangeEvent) => provider.onDidChangeTextDocument(event)));
+    context.subscriptions.push(window.onDidChangeTextEditorVisibleRanges((event: TextEditorVisibleRangesChangeEvent) => provider.decorate(event.textEditor)));
 
     // Register for notification when editor visibility changes
-    context.subscriptions.push(window.onDidChangeVisibleTextEditors((editors: TextEditor[]) => provider.onDidChangeVisibleTextEditors(editors)));
+    context.subscriptions.push(window.onDidChangeVisibleTextEditors((editors: readonly TextEditor[]) => provider.onDidChangeVisibleTextEditors(editors)));
 }
 
 // this method is called when your extension is deactivated
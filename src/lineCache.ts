@@ -0,0 +1,97 @@
+import * as Parser from './parser';
+import { Scanner, Syntax, mask } from './syntax';
+
+// A line of a document with everything that values should not be read from masked, and its values once parsed
+interface CachedLine
+{
+    text: string;
+    comments: string; // The line with everything outside of comments masked
+    blockIn: [string, string]|undefined; // Block comment open at the beginning of the line
+    blockOut: [string, string]|undefined; // Block comment open at the end of the line
+    parsed?: { node: Parser.Node, problems: Parser.Problem[] };
+}
+
+// Keeps the parsed lines of a document between edits, so that only lines that change are masked and parsed again.
+// Lines are masked in order because a change to one can open or close a block comment in the lines after it, but
+// those lines are only parsed when they are asked for.
+export class LineCache
+{
+    // Reads lines from read(i).  If syntax is undefined, the lines are plain text with no comments and values are read
+    // from everywhere in them, otherwise values are read from comments and strings unless everywhere is true.
+    constructor(read: (i: number) => string, lineCount: number, syntax: Syntax|undefined, everywhere: boolean, typePrefixes: Parser.TypePrefix[])
+    {
+        this.read = read;
+        this.lines = new Array(lineCount);
+        this.scanner = (syntax === undefined ? undefined : new Scanner(syntax));
+        this.everywhere = everywhere;
+        this.typePrefixes = typePrefixes;
+    }
+
+    get lineCount(): number
+    {
+        return this.lines.length;
+    }
+
+    // Forgets lines begin to end inclusive, which an edit replaced with count lines
+    replace(begin: number, end: number, count: number)
+    {
+        this.lines.splice(begin, end - begin + 1, ...new Array(count));
+        this.masked = Math.min(this.masked, begin);
+    }
+
+    // Returns line i with everything that values should not be read from replaced by spaces
+    text(i: number): string
+    {
+        return this.line(i).text;
+    }
+
+    // Returns line i with everything outside of comments replaced by spaces, or all of it if it is plain text
+    comments(i: number): string
+    {
+        return this.line(i).comments;
+    }
+
+    // Returns the values in line i and the problems found reading them
+    parse(i: number): { node: Parser.Node, problems: Parser.Problem[] }
+    {
+        let line = this.line(i);
+        if (line.parsed === undefined)
+        {
+            let problems: Parser.Problem[] = [];
+            line.parsed = { node: Parser.parse(line.text, this.typePrefixes, problems), problems: problems };
+        }
+        return line.parsed;
+    }
+
+    // Masks any lines up to i that changed, or that begin inside a different block comment than before
+    line(i: number): CachedLine
+    {
+        for (; this.masked <= i; this.masked++)
+        {
+            let j = this.masked;
+            let blockIn = (j === 0 ? undefined : (this.lines[j - 1] as CachedLine).blockOut);
+            let line = this.lines[j];
+            if (line !== undefined && line.blockIn === blockIn)
+            {
+                continue;
+            }
+            let text = this.read(j);
+            if (this.scanner === undefined)
+            {
+                this.lines[j] = { text: text, comments: text, blockIn: undefined, blockOut: undefined };
+                continue;
+            }
+            this.scanner.block = blockIn;
+            let masked = mask(text, this.scanner.scan(text));
+            this.lines[j] = { text: (this.everywhere ? text : masked), comments: mask(text, this.scanner.comments), blockIn: blockIn, blockOut: this.scanner.block };
+        }
+        return this.lines[i] as CachedLine;
+    }
+
+    read: (i: number) => string;
+    lines: (CachedLine|undefined)[];
+    masked = 0; // Number of lines at the beginning that are masked and up to date
+    scanner: Scanner|undefined;
+    everywhere: boolean;
+    typePrefixes: Parser.TypePrefix[];
+}
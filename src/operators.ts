@@ -0,0 +1,2252 @@
+import { Value } from './value';
+
+// Operators that fail return an invalid value made by Value.error, which records why, eg. 'cols 3 != rows 4'.
+
+// Returns the reason two values of different sizes cannot be combined component-wise, eg. 'rows 3 != rows 4'
+function sizeMismatch(a: Value, b: Value): Value
+{
+    return Value.error(a.rows !== b.rows ? 'rows ' + a.rows + ' != rows ' + b.rows : 'cols ' + a.cols + ' != cols ' + b.cols);
+}
+
+// Apply a scalar binary operator to two values, pairwise if one or both has dimension > 1
+// Returns Value.invalid if neither a nor b is scalar and they don't have the same number of rows and cols
+// (So, for example, if you try to add a vector to a matrix, it will not work).
+export function opPairs(a:Value, b:Value, op:(a:number, b:number)=>number, exactOp?:(a:bigint, b:bigint)=>bigint): Value
+{
+    // Check type compatibility -- requires equal dimension matrices, equal length vectors, or at least one scalar
+    if ((a.length !== b.length || a.rows !== b.rows) && a.dimensions !== 0 && b.dimensions !== 0)
+    {
+        return sizeMismatch(a, b);
+    }
+
+    // Apply op exactly if it has an integer version and both operands are exact
+    let length = Math.max(a.length, b.length);
+    let rows = Math.max(a.rows, b.rows);
+    if (exactOp !== undefined && a.exact !== undefined && b.exact !== undefined)
+    {
+        let exact: bigint[] = [];
+        for (let i = 0; i < length; i++)
+        {
+            exact.push(exactOp(a.exact[i % a.length], b.exact[i % b.length]));
+        }
+        return Value.integers(exact, rows);
+    }
+
+    // Apply op
+    let result:number[] = [];
+    for (let i = 0; i < length; i++)
+    {
+        result.push(op(a[i % a.length], b[i % b.length]));
+    }
+
+    return new Value(result, rows);
+}
+
+export let addPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x + y, (x: bigint, y: bigint) => x + y);
+export let subPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x - y, (x: bigint, y: bigint) => x - y);
+export let mulPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x * y, (x: bigint, y: bigint) => x * y);
+export let divPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => x / y);
+export let powPairs = (a: Value, b: Value) => opPairs(a, b, (x: number, y: number) => Math.pow(x, y));
+
+// Multiplies a vector or matrix by a vector or matrix.
+// Returns Value.invalid if left's cols do not match right's rows.
+export function matrixMultiply(left:Value, right:Value): Value
+{
+    if (left.cols !== right.rows)
+    {
+        return Value.error('cols ' + left.cols + ' != rows ' + right.rows);
+    }
+    
+    let result: number[] = [];
+    for (let i = 0; i < right.cols; i++)
+    {
+        for (let j = 0; j < left.rows; j++)
+        {
+            let sum = 0;
+            for (let k = 0; k < left.cols; k++)
+            {
+                sum += left.entry(j, k) * right.entry(k, i);
+            }
+            result.push(sum);
+        }
+    }
+    return new Value(result, left.rows);
+}
+
+// Multiplies two values: matrix times matrix or vector uses matrix multiplication, and anything else is done component-wise.
+// A vector times a matrix is treated as the matrix times the vector, as there is no concept of row vector here.
+export function multiply(a:Value, b:Value): Value
+{
+    if (a.dimensions === 2 && b.dimensions !== 0)
+    {
+        // matrix times matrix or vector
+        return matrixMultiply(a, b);
+    }
+    if (b.dimensions === 2 && a.dimensions !== 0)
+    {
+        // vector times matrix, just reverse the order so it works
+        return matrixMultiply(b, a);
+    }
+    return mulPairs(a, b);
+}
+
+// Returns the magnitude of a vector, or Value.invalid if x is not a vector
+export function magnitude(x: Value): Value
+{
+    if (x.dimensions !== 1)
+    {
+        return Value.error('not a vector');
+    }
+
+    let lengthSquared = 0;
+    for (let i = 0; i < x.length; i++)
+    {
+        lengthSquared += x[i] * x[i];
+    }
+    return Value.scalar(Math.sqrt(lengthSquared));
+}
+
+// Applies a unary operator to every element of a Value
+export function unary(x:Value, op:(x:number) => number, exactOp?:(x:bigint) => bigint): Value
+{
+    if (exactOp !== undefined && x.exact !== undefined)
+    {
+        return Value.integers(x.exact.map((x: bigint) => exactOp(x)), x.rows);
+    }
+    let y: number[] = [];
+    x.forEach(function(x: number) { y.push(op(x)); });
+    return new Value(y, x.rows);
+}
+
+// Collection of simple unary operators
+export let square = (x:Value) => unary(x, (x:number) => x * x);
+export let sqrt = (x:Value) => unary(x, (x:number) => Math.sqrt(x));
+export let reciprocal = (x:Value) => unary(x, (x:number) => 1.0 / x);
+export let negate = (x:Value) => unary(x, (x:number) => -x, (x:bigint) => -x);
+export let abs = (x:Value) => unary(x, (x:number) => Math.abs(-x), (x:bigint) => (x < 0 ? -x : x));
+export let sin = (x:Value) => unary(x, (x:number) => Math.sin(x));
+export let cos = (x:Value) => unary(x, (x:number) => Math.cos(x));
+export let tan = (x:Value) => unary(x, (x:number) => Math.tan(x));
+export let asin = (x:Value) => unary(x, (x:number) => Math.asin(x));
+export let acos = (x:Value) => unary(x, (x:number) => Math.acos(x));
+export let atan = (x:Value) => unary(x, (x:number) => Math.atan(x));
+export let log = (x:Value) => unary(x, (x:number) => Math.log(x));
+export let exp = (x:Value) => unary(x, (x:number) => Math.exp(x));
+export let exp2 = (x:Value) => unary(x, (x:number) => Math.pow(2, x));
+export let rad2deg = (x:Value) => unary(x, (x:number) => x * 180.0 / Math.PI);
+export let deg2rad = (x:Value) => unary(x, (x:number) => x * Math.PI / 180.0);
+export let zero = (x:Value) => unary(x, (x:number) => 0);
+
+// Normalizes a vector, or returns Value.invalid if x is not a vector or has zero length
+export function normalize(x:Value): Value
+{
+    if (x.dimensions !== 1)
+    {
+        return Value.error('not a vector');
+    }
+    if (magnitude(x)[0] === 0)
+    {
+        return Value.error('zero-length vector');
+    }
+    let invLength = 1.0 / magnitude(x)[0];
+    return unary(x, (x: number) => x * invLength);
+}
+
+// Returns the dot product of two vectors, or Value.invalid if the values
+// are not both vectors of equal length.
+export function dot(a:Value, b:Value): Value
+{
+    if (a.length !== b.length || a.dimensions !== 1 || b.dimensions !== 1)
+    {
+        return Value.error(a.dimensions !== 1 || b.dimensions !== 1 ? 'not vectors' : 'lengths ' + a.length + ' != ' + b.length);
+    }
+
+    let sum = 0;
+    let length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++)
+    {
+        sum += a[i] * b[i];
+    }
+    return Value.scalar(sum);
+}
+
+// Returns the projection of a onto b, or Value.invalid if they are not
+// both vectors of equal length
+export function project(a:Value, b:Value): Value
+{
+    let d = dot(a, b);
+    if (!d.valid)
+    {
+        return d;
+    }
+    if (d[0] === 0)
+    {
+        return zero(a);
+    }
+    return mulPairs(b, divPairs(d, dot(b, b)));
+}
+
+// Returns the rejection of a from b, or Value.invalid if they are not
+// both vectors of equal length
+export function reject(a:Value, b:Value): Value
+{
+    let p = project(a, b);
+    return subPairs(a, p);
+}
+
+// Returns the cross product of two vectors, or Value.invalid if the values
+// are not both vectors of length at least 3.  If an operand is of length greater than 3,
+// the vector of its first 3 components is used in its place.
+export function cross(a:Value, b:Value): Value
+{
+    if (a.dimensions !==1 || b.dimensions !== 1 || a.length < 3 || b.length < 3)
+    {
+        return Value.error('requires vectors of at least 3 components');
+    }
+
+    return new Value([
+        a[1] * b[2] - a[2] * b[1],
+        a[2] * b[0] - a[0] * b[2],
+        a[0] * b[1] - a[1] * b[0]
+    ]);
+}
+
+// Returns the angle between two vectors, or Value.invalid if the values are not
+// both nonzero vectors of the same length 2 or 3.
+export function angle(a:Value, b:Value): Value
+{
+    if (a.dimensions !== 1 || b.dimensions !== 1 ||
+        a.length !== b.length || a.length < 2 || a.length > 3 || 
+        magnitude(a)[0] === 0 || magnitude(b)[0] === 0)
+    {
+        return Value.error(a.dimensions === 1 && b.dimensions === 1 && a.length === b.length && a.length >= 2 && a.length <= 3 ? 'zero-length vector' : 'requires vectors of the same length 2 or 3');
+    }
+
+    let normA = normalize(a);
+    let normB = normalize(b);
+
+    let cosAngle = dot(normA, normB);
+    if (cosAngle[0] > Math.sqrt(2) / 2)
+    {
+        // Sine is closer to zero and therefore more accurate
+        let sinAngle: Value;
+        if (a.length === 2)
+        {
+            sinAngle = Value.scalar(normA[0] * normB[1] - normA[1] * normB[0]);
+        }
+        else
+        {
+            sinAngle = magnitude(cross(normA, normB));
+        }
+        return abs(asin(sinAngle));
+    }
+    return acos(cosAngle);
+}
+
+// Returns a vector of the first three components of v, or invalid if v is not a vector
+// with at least three components
+export function xyz(v: Value): Value
+{
+    if (v.dimensions !== 1 || v.rows < 3)
+    {
+        return Value.error('requires a vector of at least 3 components');
+    }
+    return new Value(v.slice(0, 3));
+}
+
+// Returns the plane with normal normalize(xyz(direction)) containing point xyz(position),
+// or invalid if any of those operations are not possible.
+export function plane(direction: Value, position: Value): Value
+{
+    let n = normalize(xyz(direction));
+    let v = xyz(position);
+    if (!n.valid || !v.valid)
+    {
+        return (v.valid ? n : v);
+    }
+
+    return new Value([n[0], n[1], n[2], negate(dot(n, v))[0]]);
+}
+
+// Returns the signed distance from point xyz(a) to plane b
+export function pointPlaneDistance(point: Value, plane: Value): Value
+{
+    let v = xyz(point);
+    if (!v.valid || plane.dimensions !== 1 || plane.length < 4)
+    {
+        return (v.valid ? Value.error('requires a plane, a vector of 4 components') : v);
+    }
+
+    return dot(new Value([...v, 1.0]), plane);
+}
+
+// Returns the signed distance between a point and a plane given in either order
+export function planeDistance(a: Value, b: Value): Value
+{
+    if (b.length >= 4 && a.length < 4)
+    {
+        return pointPlaneDistance(a, b);
+    }
+    return pointPlaneDistance(b, a);
+}
+
+// Geometry.  Points and directions are vectors, lines and segments are given by two points on them, and planes are
+// vectors (a, b, c, d) as for plane.  Operators on planes use the first three components of points and directions.
+
+// Returns an error if the values are not all vectors of the same length, or else undefined
+function notPoints(values: Value[]): Value|undefined
+{
+    if (values.some((v: Value) => v.dimensions !== 1))
+    {
+        return Value.error('requires vectors');
+    }
+    let mismatch = values.find((v: Value) => v.length !== values[0].length);
+    return (mismatch === undefined ? undefined : Value.error('lengths ' + values[0].length + ' != ' + mismatch.length));
+}
+
+// Returns the t where point + t direction is on a plane, or Value.invalid if the line is parallel to the plane
+function planeParameter(point: Value, direction: Value, plane: Value): Value
+{
+    let p = xyz(point);
+    let d = xyz(direction);
+    if (!p.valid || !d.valid)
+    {
+        return (p.valid ? d : p);
+    }
+    if (plane.dimensions !== 1 || plane.length < 4)
+    {
+        return Value.error('requires a plane, a vector of 4 components');
+    }
+    let denominator = dot(new Value(plane.slice(0, 3)), d)[0];
+    if (denominator === 0)
+    {
+        return Value.error(magnitude(d)[0] === 0 ? 'zero-length direction' : 'parallel to the plane');
+    }
+    return Value.scalar(-pointPlaneDistance(p, plane)[0] / denominator);
+}
+
+// Returns the point where the ray from origin in direction meets a plane, or Value.invalid if it is parallel to the plane
+// or points away from it
+export function rayPlaneIntersection(origin: Value, direction: Value, plane: Value): Value
+{
+    let t = planeParameter(origin, direction, plane);
+    if (!t.valid || t[0] < 0)
+    {
+        return (t.valid ? Value.error('the plane is behind the ray') : t);
+    }
+    return addPairs(xyz(origin), mulPairs(xyz(direction), t));
+}
+
+// Returns the point where the line through points a and b meets a plane, or Value.invalid if it is parallel to the plane
+export function linePlaneIntersection(a: Value, b: Value, plane: Value): Value
+{
+    let p = xyz(a);
+    let q = xyz(b);
+    if (!p.valid || !q.valid)
+    {
+        return (p.valid ? q : p);
+    }
+    let d = subPairs(q, p);
+    if (magnitude(d)[0] === 0)
+    {
+        return Value.error('the points on the line are the same');
+    }
+    let t = planeParameter(p, d, plane);
+    return (t.valid ? addPairs(p, mulPairs(d, t)) : t);
+}
+
+// Returns the closest points between the line through points a0 and a1 and the line through points b0 and b1, as the
+// columns of a matrix, the point on the first line first.  Returns Value.invalid if the lines are parallel.
+export function closestPoints(a0: Value, a1: Value, b0: Value, b1: Value): Value
+{
+    let error = notPoints([a0, a1, b0, b1]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let u = subPairs(a1, a0);
+    let v = subPairs(b1, b0);
+    let w = subPairs(a0, b0);
+    let uu = dot(u, u)[0];
+    let uv = dot(u, v)[0];
+    let vv = dot(v, v)[0];
+    if (uu === 0 || vv === 0)
+    {
+        return Value.error('the points on a line are the same');
+    }
+    let denominator = uu * vv - uv * uv;
+    if (denominator <= 1e-12 * uu * vv)
+    {
+        return Value.error('the lines are parallel');
+    }
+    let uw = dot(u, w)[0];
+    let vw = dot(v, w)[0];
+    let s = (uv * vw - vv * uw) / denominator;
+    let t = (uu * vw - uv * uw) / denominator;
+    let p = addPairs(a0, mulPairs(u, Value.scalar(s)));
+    let q = addPairs(b0, mulPairs(v, Value.scalar(t)));
+    return new Value([...p, ...q], p.length);
+}
+
+// Returns the distance from point p to the line through points a and b, or Value.invalid if a and b are the same
+export function pointLineDistance(p: Value, a: Value, b: Value): Value
+{
+    let error = notPoints([p, a, b]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let d = subPairs(b, a);
+    if (magnitude(d)[0] === 0)
+    {
+        return Value.error('the points on the line are the same');
+    }
+    return magnitude(reject(subPairs(p, a), d));
+}
+
+// Returns the distance from point p to the segment between points a and b
+export function pointSegmentDistance(p: Value, a: Value, b: Value): Value
+{
+    let error = notPoints([p, a, b]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let d = subPairs(b, a);
+    let dd = dot(d, d)[0];
+    let t = (dd === 0 ? 0 : Math.max(0, Math.min(dot(subPairs(p, a), d)[0] / dd, 1)));
+    return magnitude(subPairs(p, addPairs(a, mulPairs(d, Value.scalar(t)))));
+}
+
+// Returns the unit normal of the triangle abc, facing the side from which a, b, c are counterclockwise, or Value.invalid
+// if the triangle has no area
+export function triangleNormal(a: Value, b: Value, c: Value): Value
+{
+    let points = [xyz(a), xyz(b), xyz(c)];
+    let invalid = points.find((point: Value) => !point.valid);
+    if (invalid !== undefined)
+    {
+        return invalid;
+    }
+    let n = cross(subPairs(points[1], points[0]), subPairs(points[2], points[0]));
+    return (magnitude(n)[0] === 0 ? Value.error('degenerate triangle') : normalize(n));
+}
+
+// Returns the area of the triangle abc
+export function triangleArea(a: Value, b: Value, c: Value): Value
+{
+    let error = notPoints([a, b, c]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let u = subPairs(b, a);
+    let v = subPairs(c, a);
+    let uv = dot(u, v)[0];
+    return Value.scalar(0.5 * Math.sqrt(Math.max(0, dot(u, u)[0] * dot(v, v)[0] - uv * uv)));
+}
+
+// Returns the barycentric coordinates (u, v, w) of point p in the triangle abc, so that u a + v b + w c is the closest
+// point to p in the triangle's plane, and u + v + w = 1.  Returns Value.invalid if the triangle has no area.
+export function barycentric(p: Value, a: Value, b: Value, c: Value): Value
+{
+    let error = notPoints([p, a, b, c]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let e0 = subPairs(b, a);
+    let e1 = subPairs(c, a);
+    let e2 = subPairs(p, a);
+    let d00 = dot(e0, e0)[0];
+    let d01 = dot(e0, e1)[0];
+    let d11 = dot(e1, e1)[0];
+    let d20 = dot(e2, e0)[0];
+    let d21 = dot(e2, e1)[0];
+    let denominator = d00 * d11 - d01 * d01;
+    if (denominator <= 1e-12 * d00 * d11)
+    {
+        return Value.error('degenerate triangle');
+    }
+    let v = (d11 * d20 - d01 * d21) / denominator;
+    let w = (d00 * d21 - d01 * d20) / denominator;
+    return new Value([1 - v - w, v, w]);
+}
+
+// Returns direction d reflected about a surface with normal n, which need not be unit length
+export function reflect(d: Value, n: Value): Value
+{
+    let error = notPoints([d, n]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    let unit = normalize(n);
+    if (!unit.valid)
+    {
+        return unit;
+    }
+    return subPairs(d, mulPairs(unit, Value.scalar(2 * dot(d, unit)[0])));
+}
+
+// Returns the unit direction of a ray in direction d refracted through a surface with normal n, which can face either
+// way, where eta is the ratio of the refractive indices on the incoming and outgoing sides.  Returns Value.invalid if
+// there is total internal reflection.
+export function refract(d: Value, n: Value, eta: Value): Value
+{
+    let error = notPoints([d, n]);
+    if (error !== undefined)
+    {
+        return error;
+    }
+    if (eta.dimensions !== 0)
+    {
+        return Value.error('requires a scalar ratio of refractive indices');
+    }
+    let i = normalize(d);
+    let unit = normalize(n);
+    if (!i.valid || !unit.valid)
+    {
+        return (i.valid ? unit : i);
+    }
+
+    // Make the normal face the incoming ray
+    let cosI = dot(unit, i)[0];
+    if (cosI > 0)
+    {
+        unit = negate(unit);
+        cosI = -cosI;
+    }
+    let k = 1 - eta[0] * eta[0] * (1 - cosI * cosI);
+    if (k < 0)
+    {
+        return Value.error('total internal reflection');
+    }
+    return subPairs(mulPairs(i, eta), mulPairs(unit, Value.scalar(eta[0] * cosI + Math.sqrt(k))));
+}
+
+// Returns the closest point to xyz(point) on a plane, given in either order
+export function projectOntoPlane(a: Value, b: Value): Value
+{
+    let [point, plane] = (b.length >= 4 && a.length < 4 ? [a, b] : [b, a]);
+    let p = xyz(point);
+    if (!p.valid || plane.dimensions !== 1 || plane.length < 4)
+    {
+        return (p.valid ? Value.error('requires a plane, a vector of 4 components') : p);
+    }
+    let n = new Value(plane.slice(0, 3));
+    let nn = dot(n, n)[0];
+    if (nn === 0)
+    {
+        return Value.error('zero-length plane normal');
+    }
+    return subPairs(p, mulPairs(n, Value.scalar(pointPlaneDistance(p, plane)[0] / nn)));
+}
+
+// Converts quaternion ix + jy + kz + w to a 3x3 rotation matrix, or returns Value.invalid if it is zero
+export function quaternionToMatrix(quaternion: Value): Value
+{
+    if (quaternion.dimensions !==1 || quaternion.length !== 4)
+    {
+        return Value.error('requires a quaternion, a 4-vector');
+    }
+
+    let q = normalize(quaternion);
+    if (!q.valid)
+    {
+        return q;
+    }
+
+    let q2 = addPairs(q, q);
+    let xq2 = mulPairs(q2, Value.scalar(q[0]));
+    let yq2 = mulPairs(q2, Value.scalar(q[1]));
+    let zq2 = mulPairs(q2, Value.scalar(q[2]));
+    let wq2 = mulPairs(q2, Value.scalar(q[3]));
+
+    let tmp1 = yq2[2] - wq2[0];
+    let tmp2 = xq2[2] + wq2[1];
+    let tmp3 = 1 - zq2[2];
+
+    return new Value(
+        [
+            tmp3 - yq2[1], xq2[1] + wq2[2], xq2[2] - wq2[1],
+            xq2[1] - wq2[2], tmp3 - xq2[0], yq2[2] + wq2[0],
+            tmp2, tmp1, (1 - xq2[0]) - yq2[1]
+        ], 3
+    );
+}
+
+// Quaternions are 4-vectors ix + jy + kz + w, the same as for quaternionToMatrix.  Operators that rotate normalize them first.
+
+// Returns true if q is a quaternion
+function isQuaternion(q: Value): boolean
+{
+    return q.dimensions === 1 && q.length === 4;
+}
+
+// Returns the product of quaternions a and b, the rotation b followed by the rotation a, or Value.invalid if they are not
+// both quaternions
+export function quaternionMultiply(a: Value, b: Value): Value
+{
+    if (!isQuaternion(a) || !isQuaternion(b))
+    {
+        return Value.error('requires quaternions, 4-vectors');
+    }
+    let [ax, ay, az, aw] = a;
+    let [bx, by, bz, bw] = b;
+    return new Value([
+        aw * bx + ax * bw + ay * bz - az * by,
+        aw * by - ax * bz + ay * bw + az * bx,
+        aw * bz + ax * by - ay * bx + az * bw,
+        aw * bw - ax * bx - ay * by - az * bz
+    ]);
+}
+
+// Returns the conjugate of a quaternion, the inverse rotation, or Value.invalid if q is not a quaternion
+export function conjugate(q: Value): Value
+{
+    if (!isQuaternion(q))
+    {
+        return Value.error('requires a quaternion, a 4-vector');
+    }
+    return new Value([-q[0], -q[1], -q[2], q[3]]);
+}
+
+// Returns the inverse of a quaternion, or Value.invalid if q is not a quaternion or is zero
+export function quaternionInverse(q: Value): Value
+{
+    let lengthSquared = dot(q, q);
+    if (!isQuaternion(q) || lengthSquared[0] === 0)
+    {
+        return Value.error(isQuaternion(q) ? 'zero quaternion' : 'requires a quaternion, a 4-vector');
+    }
+    return divPairs(conjugate(q), lengthSquared);
+}
+
+// Rotates xyz(v) by a quaternion, given in either order.  Returns Value.invalid if the operands are not a quaternion
+// and a vector of at least three components, or the quaternion is zero.
+export function rotateVector(a: Value, b: Value): Value
+{
+    let [q, v] = (isQuaternion(a) && !isQuaternion(b) ? [a, b] : [b, a]);
+    let p = xyz(v);
+    if (!isQuaternion(q) || !p.valid)
+    {
+        return Value.error('requires a quaternion and a vector of at least 3 components');
+    }
+    let n = normalize(q);
+    if (!n.valid)
+    {
+        return Value.error('zero quaternion');
+    }
+    return xyz(quaternionMultiply(quaternionMultiply(n, new Value([...p, 0])), conjugate(n)));
+}
+
+// Returns the quaternion that rotates by angle radians about normalize(xyz(axis)), with the operands in either order.
+// Returns Value.invalid if the operands are not a vector of at least three components and a scalar.
+export function axisAngle(a: Value, b: Value): Value
+{
+    let [axis, angle] = (a.dimensions === 0 ? [b, a] : [a, b]);
+    let n = normalize(xyz(axis));
+    if (!n.valid || angle.dimensions !== 0 || magnitude(n)[0] === 0 || !n.every(isFinite))
+    {
+        return Value.error(n.valid || axis.dimensions !== 1 || axis.length < 3 ? 'requires an axis vector of at least 3 components and an angle' : n.reason);
+    }
+    let s = Math.sin(angle[0] / 2);
+    return new Value([n[0] * s, n[1] * s, n[2] * s, Math.cos(angle[0] / 2)]);
+}
+
+// Returns the axis and angle of the rotation by a quaternion as a 4-vector (x, y, z, angle), with the angle in [0, pi].
+// The axis of the identity rotation is (1, 0, 0).  Returns Value.invalid if q is not a quaternion or is zero.
+export function toAxisAngle(q: Value): Value
+{
+    if (!isQuaternion(q))
+    {
+        return Value.error('requires a quaternion, a 4-vector');
+    }
+    let n = normalize(q);
+    if (!n.valid)
+    {
+        return Value.error('zero quaternion');
+    }
+    if (n[3] < 0)
+    {
+        n = negate(n);
+    }
+    let sinHalf = magnitude(xyz(n))[0];
+    if (sinHalf === 0)
+    {
+        return new Value([1, 0, 0, 0]);
+    }
+    return new Value([n[0] / sinHalf, n[1] / sinHalf, n[2] / sinHalf, 2 * Math.atan2(sinHalf, n[3])]);
+}
+
+// Orders of Euler angle rotations about the fixed x, y and z axes, eg. 'xyz' rotates about x first and z last
+export const eulerOrders = ['xyz', 'xzy', 'yxz', 'yzx', 'zxy', 'zyx'];
+
+// Returns the quaternion that rotates by angles (x, y, z) radians about each axis, in the given order.
+// Returns Value.invalid if angles is not a vector of at least three components or order is not one of eulerOrders.
+export function eulerToQuaternion(angles: Value, order: string): Value
+{
+    let a = xyz(angles);
+    if (!a.valid || eulerOrders.indexOf(order) < 0)
+    {
+        return (a.valid ? Value.error('unknown order ' + order) : a);
+    }
+    let q = new Value([0, 0, 0, 1]);
+    for (const name of order)
+    {
+        let axis = 'xyz'.indexOf(name);
+        let rotation = new Value([0, 0, 0, Math.cos(a[axis] / 2)]);
+        rotation[axis] = Math.sin(a[axis] / 2);
+        q = quaternionMultiply(rotation, q);
+    }
+    return q;
+}
+
+// Returns the angles (x, y, z) in radians about each axis that rotate in the given order the same as a quaternion or
+// a 3x3 rotation matrix.  The middle rotation is in [-pi/2, pi/2], and in gimbal lock the last one is zero.
+// Returns Value.invalid if rotation is neither, or order is not one of eulerOrders.
+export function toEuler(rotation: Value, order: string): Value
+{
+    let m = (isQuaternion(rotation) ? quaternionToMatrix(rotation) : rotation);
+    if (m.dimensions !== 2 || m.rows < 3 || m.cols < 3 || eulerOrders.indexOf(order) < 0)
+    {
+        return Value.error('requires a quaternion or a 3x3 rotation matrix');
+    }
+
+    // The matrix is rotation k * rotation j * rotation i, and its entries are the same for each order
+    // apart from their positions and signs
+    let [i, j, k] = [...order].map((name: string) => 'xyz'.indexOf(name));
+    let sign = ((j - i + 3) % 3 === 1 ? 1 : -1);
+    let e = (row: number, col: number) => m.entry(row, col);
+    let angles = [0, 0, 0];
+    angles[j] = Math.asin(Math.max(-1, Math.min(-sign * e(k, i), 1)));
+    if (Math.abs(e(k, i)) < 1 - 1e-12)
+    {
+        angles[i] = Math.atan2(sign * e(k, j), e(k, k));
+        angles[k] = Math.atan2(sign * e(j, i), e(i, i));
+    }
+    else
+    {
+        angles[i] = Math.atan2(-sign * e(j, k), e(j, j));
+    }
+    return new Value(angles);
+}
+
+// Interpolates between quaternions a and b by t along the shorter arc, at a constant angular speed.
+// Returns Value.invalid if a and b are not quaternions or t is not a scalar.
+export function slerp(a: Value, b: Value, t: Value): Value
+{
+    if (!isQuaternion(a) || !isQuaternion(b) || t.dimensions !== 0)
+    {
+        return Value.error('requires two quaternions and a scalar t');
+    }
+    let p = normalize(a);
+    let q = normalize(b);
+    let cos = dot(p, q)[0];
+    if (cos < 0)
+    {
+        q = negate(q);
+        cos = -cos;
+    }
+    if (cos > 1 - 1e-9)
+    {
+        return nlerp(p, q, t);
+    }
+    let theta = Math.acos(cos);
+    let sin = Math.sin(theta);
+    return addPairs(mulPairs(p, Value.scalar(Math.sin((1 - t[0]) * theta) / sin)), mulPairs(q, Value.scalar(Math.sin(t[0] * theta) / sin)));
+}
+
+// Interpolates linearly between quaternions a and b by t along the shorter arc, and normalizes the result.
+// Returns Value.invalid if a and b are not quaternions or t is not a scalar.
+export function nlerp(a: Value, b: Value, t: Value): Value
+{
+    if (!isQuaternion(a) || !isQuaternion(b) || t.dimensions !== 0)
+    {
+        return Value.error('requires two quaternions and a scalar t');
+    }
+    let q = (dot(a, b)[0] < 0 ? negate(b) : b);
+    return normalize(addPairs(mulPairs(a, Value.scalar(1 - t[0])), mulPairs(q, t)));
+}
+
+// Returns the angle in radians of the rotation between two quaternions, or Value.invalid if they are not both quaternions
+// or either is zero
+export function angularDistance(a: Value, b: Value): Value
+{
+    if (!isQuaternion(a) || !isQuaternion(b))
+    {
+        return Value.error('requires quaternions, 4-vectors');
+    }
+    let na = normalize(a);
+    let nb = normalize(b);
+    if (!na.valid || !nb.valid)
+    {
+        return Value.error('zero quaternion');
+    }
+    let cos = Math.abs(dot(na, nb)[0]);
+    return Value.scalar(2 * Math.acos(Math.min(cos, 1)));
+}
+
+// Returns a transposed value.
+// Notes: if x is a scalar this returns the same scalar.
+// If x is an N-vector this returns a 1xN matrix, as there is no concept
+// of row vector here.
+export function transpose(x: Value) : Value
+{
+    let y = new Value(x, x.cols);
+    for (let i = 0; i < x.rows; i++)
+    {
+        for (let j = 0; j < x.cols; j++)
+        {
+            y[y.index(j, i)] = x.entry(i, j);
+        }
+    }
+    return y;
+}
+
+// Returns true if x is a matrix with the same number of rows and columns
+export function isSquare(x: Value): boolean
+{
+    return x.dimensions === 2 && x.rows === x.cols;
+}
+
+// Returns true if x is a square matrix whose columns are unit length and perpendicular to each other, to within
+// a tolerance that allows for values written with a few digits, eg. 0.7071
+export function isOrthonormal(x: Value, tolerance: number = 1e-4): boolean
+{
+    if (!isSquare(x))
+    {
+        return false;
+    }
+    let product = matrixMultiply(transpose(x), x);
+    let id = identity(x);
+    return product.every((p: number, i: number) => Math.abs(p - id[i]) <= tolerance);
+}
+
+// Returns a matrix with the same number of rows and columns as x, with ones on the diagonal
+// and zeros elsewhere.  Returns Value.invalid if x is not a matrix.
+export function identity(x: Value): Value
+{
+    if (x.dimensions !== 2)
+    {
+        return Value.error('not a matrix');
+    }
+
+    let y = zero(x);
+    for (let i = 0; i < Math.min(x.rows, x.cols); i++)
+    {
+        y[y.index(i, i)] = 1;
+    }
+    return y;
+}
+
+// Reduces a copy of x to reduced row echelon form by Gauss-Jordan elimination with partial pivoting.
+// Only the first pivotCols columns are searched for pivots, so that an augmented matrix [A | B]
+// can be reduced to [I | inverse(A) * B].  Pivots smaller than a tolerance relative to the largest
+// entry in those columns are treated as zero.
+// Returns the reduced matrix, the number of pivots found, and the determinant of the first
+// pivotCols columns if they form a square matrix.
+function rowReduce(x: Value, pivotCols: number = x.cols): { reduced: Value, rank: number, determinant: number }
+{
+    let m = new Value(x, x.rows);
+
+    let largest = 0;
+    for (let i = 0; i < x.rows * pivotCols; i++)
+    {
+        largest = Math.max(largest, Math.abs(x[i]));
+    }
+    let tolerance = largest * Math.max(x.rows, pivotCols) * Number.EPSILON;
+
+    let rank = 0;
+    let determinant = 1;
+    for (let col = 0; col < pivotCols && rank < m.rows; col++)
+    {
+        // Find the row with the largest entry in this column
+        let pivotRow = rank;
+        for (let row = rank + 1; row < m.rows; row++)
+        {
+            if (Math.abs(m.entry(row, col)) > Math.abs(m.entry(pivotRow, col)))
+            {
+                pivotRow = row;
+            }
+        }
+        let pivot = m.entry(pivotRow, col);
+        if (Math.abs(pivot) <= tolerance)
+        {
+            continue;
+        }
+
+        // Swap it into place and scale it to one
+        if (pivotRow !== rank)
+        {
+            for (let c = 0; c < m.cols; c++)
+            {
+                let tmp = m.entry(rank, c);
+                m[m.index(rank, c)] = m.entry(pivotRow, c);
+                m[m.index(pivotRow, c)] = tmp;
+            }
+            determinant = -determinant;
+        }
+        determinant *= pivot;
+        for (let c = 0; c < m.cols; c++)
+        {
+            m[m.index(rank, c)] /= pivot;
+        }
+
+        // Eliminate the column from every other row
+        for (let row = 0; row < m.rows; row++)
+        {
+            let factor = m.entry(row, col);
+            if (row === rank || factor === 0)
+            {
+                continue;
+            }
+            for (let c = 0; c < m.cols; c++)
+            {
+                m[m.index(row, c)] -= factor * m.entry(rank, c);
+            }
+        }
+        rank++;
+    }
+
+    if (rank < pivotCols)
+    {
+        determinant = 0;
+    }
+    return { reduced: m, rank: rank, determinant: determinant };
+}
+
+// Returns the determinant of a square matrix, or Value.invalid if x is not a square matrix
+export function determinant(x: Value): Value
+{
+    if (!isSquare(x))
+    {
+        return Value.error('not a square matrix');
+    }
+    return Value.scalar(rowReduce(x).determinant);
+}
+
+// Returns the inverse of a square matrix, or Value.invalid if x is not a square matrix or is singular
+export function inverse(x: Value): Value
+{
+    if (!isSquare(x))
+    {
+        return Value.error('not a square matrix');
+    }
+
+    // Reduce [x | I] to [I | inverse(x)]
+    let augmented = new Value([...x, ...identity(x)], x.rows);
+    let r = rowReduce(augmented, x.cols);
+    if (r.rank < x.rows)
+    {
+        return Value.error('singular');
+    }
+    return new Value(r.reduced.slice(x.length), x.rows);
+}
+
+// Returns the sum of the diagonal of a square matrix, or Value.invalid if x is not a square matrix
+export function trace(x: Value): Value
+{
+    if (!isSquare(x))
+    {
+        return Value.error('not a square matrix');
+    }
+
+    let sum = 0;
+    for (let i = 0; i < x.rows; i++)
+    {
+        sum += x.entry(i, i);
+    }
+    return Value.scalar(sum);
+}
+
+// Returns the number of linearly independent columns of a matrix, or Value.invalid if x is not a matrix
+export function rank(x: Value): Value
+{
+    if (x.dimensions !== 2)
+    {
+        return Value.error('not a matrix');
+    }
+    return Value.scalar(rowReduce(x).rank);
+}
+
+// Solves a x = b for x, where b is a vector, or a matrix whose columns are several right-hand sides.  Square systems are
+// solved by Gauss-Jordan elimination with partial pivoting, and over-determined systems by least squares.  Also returns
+// the residual |a x - b|, the Frobenius norm if b is a matrix, and the condition number of a, the ratio of its largest
+// and smallest singular values.  x is Value.invalid if the sizes do not match, or a is singular or has more columns than rows.
+export function solveSystem(a: Value, b: Value): { x: Value, residual: number, condition: number }
+{
+    let failure = (reason: string) => ({ x: Value.error(reason), residual: NaN, condition: NaN });
+    if (a.dimensions !== 2)
+    {
+        return failure('not a matrix');
+    }
+    if (b.dimensions === 0)
+    {
+        return failure('not a vector or matrix');
+    }
+    if (a.rows !== b.rows)
+    {
+        return failure('rows ' + a.rows + ' != rows ' + b.rows);
+    }
+    if (a.rows < a.cols)
+    {
+        return failure('under-determined, rows ' + a.rows + ' < cols ' + a.cols);
+    }
+
+    let x: Value;
+    if (isSquare(a))
+    {
+        // Reduce [a | b] to [I | x]
+        let r = rowReduce(new Value([...a, ...b], a.rows), a.cols);
+        if (r.rank < a.cols)
+        {
+            return failure('singular');
+        }
+        x = new Value(r.reduced.slice(a.length), a.cols);
+    }
+    else
+    {
+        x = leastSquares(a, b);
+        if (!x.valid)
+        {
+            return failure(x.reason);
+        }
+    }
+
+    // Check the solution
+    let residual = 0;
+    subPairs(matrixMultiply(a, x), b).forEach((e: number) => residual += e * e);
+    let singular = symmetricEigen(matrixMultiply(transpose(a), a)).values.map((e: number) => Math.sqrt(Math.max(e, 0)));
+    return { x: x, residual: Math.sqrt(residual), condition: greatest(singular) / least(singular) };
+}
+export let solve = (a: Value, b: Value) => solveSystem(a, b).x;
+
+// Finds the x that minimizes |a x - b| for a matrix a with more rows than columns, by reducing [a | b] to [r | c] with
+// Householder reflections, where r is upper triangular, and solving r x = c.  Returns Value.invalid if a's rank is
+// less than its number of columns.
+function leastSquares(a: Value, b: Value): Value
+{
+    let m = a.rows;
+    let n = a.cols;
+    let k = b.cols;
+    let r: number[][] = [];
+    let largest = 0;
+    for (let i = 0; i < m; i++)
+    {
+        r.push([]);
+        for (let j = 0; j < n + k; j++)
+        {
+            r[i].push(j < n ? a.entry(i, j) : b.entry(i, j - n));
+        }
+        largest = Math.max(largest, ...r[i].slice(0, n).map((e: number) => Math.abs(e)));
+    }
+    let tolerance = largest * m * Number.EPSILON;
+
+    for (let j = 0; j < n; j++)
+    {
+        // Reflect column j below the diagonal onto the diagonal
+        let norm = 0;
+        for (let i = j; i < m; i++)
+        {
+            norm += r[i][j] * r[i][j];
+        }
+        norm = Math.sqrt(norm);
+        if (norm <= tolerance)
+        {
+            return Value.error('rank deficient');
+        }
+        let alpha = (r[j][j] > 0 ? -norm : norm);
+        let v: number[] = [];
+        for (let i = j; i < m; i++)
+        {
+            v.push(r[i][j] - (i === j ? alpha : 0));
+        }
+        let vv = v.reduce((sum: number, e: number) => sum + e * e, 0);
+        for (let c = j; c < n + k; c++)
+        {
+            let f = 0;
+            for (let i = j; i < m; i++)
+            {
+                f += v[i - j] * r[i][c];
+            }
+            f *= 2 / vv;
+            for (let i = j; i < m; i++)
+            {
+                r[i][c] -= f * v[i - j];
+            }
+        }
+    }
+
+    // Back substitute for each right-hand side
+    let x: number[] = [];
+    for (let c = 0; c < k; c++)
+    {
+        let y: number[] = new Array(n).fill(0);
+        for (let i = n - 1; i >= 0; i--)
+        {
+            let sum = r[i][n + c];
+            for (let j = i + 1; j < n; j++)
+            {
+                sum -= r[i][j] * y[j];
+            }
+            y[i] = sum / r[i][i];
+        }
+        x.push(...y);
+    }
+    return new Value(x, n);
+}
+
+// Matrix decompositions.  Each returns its parts by name, eg. [['L', l], ['U', u], ['P', p]], or Value.invalid if the
+// matrix cannot be decomposed that way.
+
+// Returns the entries of a matrix as an array of rows
+function toRows(x: Value): number[][]
+{
+    let rows: number[][] = [];
+    for (let i = 0; i < x.rows; i++)
+    {
+        rows.push([]);
+        for (let j = 0; j < x.cols; j++)
+        {
+            rows[i].push(x.entry(i, j));
+        }
+    }
+    return rows;
+}
+
+// Returns a matrix from an array of rows
+function fromRows(rows: number[][]): Value
+{
+    let x: number[] = [];
+    for (let j = 0; j < rows[0].length; j++)
+    {
+        rows.forEach((row: number[]) => x.push(row[j]));
+    }
+    return new Value(x, rows.length);
+}
+
+// Returns a matrix from an array of columns
+function fromColumns(cols: number[][], rows: number): Value
+{
+    let x: number[] = [];
+    cols.forEach((col: number[]) => x.push(...col));
+    return new Value(x, rows);
+}
+
+// Returns true if x is a square matrix equal to its transpose, to within a tolerance relative to its largest entry
+function isSymmetric(x: Value): boolean
+{
+    if (!isSquare(x))
+    {
+        return false;
+    }
+    let largest = 0;
+    x.forEach((e: number) => largest = Math.max(largest, Math.abs(e)));
+    let tolerance = largest * 1e-9;
+    for (let i = 0; i < x.rows; i++)
+    {
+        for (let j = i + 1; j < x.cols; j++)
+        {
+            if (Math.abs(x.entry(i, j) - x.entry(j, i)) > tolerance)
+            {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+// Negates v if its largest component is negative, so that decompositions give the same vectors every time
+function positive(v: number[]): number[]
+{
+    let largest = v.reduce((a: number, b: number) => (Math.abs(b) > Math.abs(a) ? b : a), 0);
+    return (largest < 0 ? v.map((e: number) => -e) : v);
+}
+
+// Decomposes a square matrix into P x = L U, with P a permutation matrix, L lower triangular with ones on the diagonal,
+// and U upper triangular, by Gaussian elimination with partial pivoting
+export function luDecomposition(x: Value): [string, Value][]|Value
+{
+    if (!isSquare(x))
+    {
+        return Value.error('not a square matrix');
+    }
+
+    let n = x.rows;
+    let u = toRows(x);
+    let l: number[][] = u.map((row: number[], i: number) => row.map((e: number, j: number) => (i === j ? 1 : 0)));
+    let p: number[] = u.map((row: number[], i: number) => i);
+    for (let k = 0; k < n; k++)
+    {
+        // Swap the row with the largest entry in this column into place
+        let pivot = k;
+        for (let i = k + 1; i < n; i++)
+        {
+            if (Math.abs(u[i][k]) > Math.abs(u[pivot][k]))
+            {
+                pivot = i;
+            }
+        }
+        [u[k], u[pivot]] = [u[pivot], u[k]];
+        [p[k], p[pivot]] = [p[pivot], p[k]];
+        for (let j = 0; j < k; j++)
+        {
+            [l[k][j], l[pivot][j]] = [l[pivot][j], l[k][j]];
+        }
+        if (u[k][k] === 0)
+        {
+            continue;
+        }
+
+        // Eliminate the column below the pivot
+        for (let i = k + 1; i < n; i++)
+        {
+            let factor = u[i][k] / u[k][k];
+            l[i][k] = factor;
+            for (let j = k; j < n; j++)
+            {
+                u[i][j] -= factor * u[k][j];
+            }
+        }
+    }
+
+    let permutation = p.map((col: number) => u.map((row: number[], j: number) => (j === col ? 1 : 0)));
+    return [['L', fromRows(l)], ['U', fromRows(u)], ['P', fromRows(permutation)]];
+}
+
+// Decomposes a matrix into x = Q R, with Q orthogonal and R upper triangular with a non-negative diagonal,
+// by Householder reflections
+export function qrDecomposition(x: Value): [string, Value][]|Value
+{
+    if (x.dimensions !== 2)
+    {
+        return Value.error('not a matrix');
+    }
+
+    let m = x.rows;
+    let n = x.cols;
+    let r = toRows(x);
+    let q: number[][] = r.map((row: number[], i: number) => r.map((row: number[], j: number) => (i === j ? 1 : 0)));
+    for (let j = 0; j < Math.min(m - 1, n); j++)
+    {
+        // Reflect column j below the diagonal onto the diagonal
+        let norm = 0;
+        for (let i = j; i < m; i++)
+        {
+            norm += r[i][j] * r[i][j];
+        }
+        norm = Math.sqrt(norm);
+        if (norm === 0)
+        {
+            continue;
+        }
+        let alpha = (r[j][j] > 0 ? -norm : norm);
+        let v: number[] = [];
+        for (let i = j; i < m; i++)
+        {
+            v.push(r[i][j] - (i === j ? alpha : 0));
+        }
+        let vv = v.reduce((sum: number, e: number) => sum + e * e, 0);
+        for (let c = 0; c < n; c++)
+        {
+            let f = 0;
+            for (let i = j; i < m; i++)
+            {
+                f += v[i - j] * r[i][c];
+            }
+            for (let i = j; i < m; i++)
+            {
+                r[i][c] -= 2 * f / vv * v[i - j];
+            }
+        }
+        for (let row = 0; row < m; row++)
+        {
+            let f = 0;
+            for (let i = j; i < m; i++)
+            {
+                f += q[row][i] * v[i - j];
+            }
+            for (let i = j; i < m; i++)
+            {
+                q[row][i] -= 2 * f / vv * v[i - j];
+            }
+        }
+        for (let i = j + 1; i < m; i++)
+        {
+            r[i][j] = 0;
+        }
+    }
+
+    // Make the diagonal of R non-negative
+    for (let j = 0; j < Math.min(m, n); j++)
+    {
+        if (r[j][j] < 0)
+        {
+            r[j] = r[j].map((e: number) => -e);
+            q.forEach((row: number[]) => row[j] = -row[j]);
+        }
+    }
+    return [['Q', fromRows(q)], ['R', fromRows(r)]];
+}
+
+// Decomposes a symmetric positive definite matrix into x = L L^T, with L lower triangular
+export function choleskyDecomposition(x: Value): [string, Value][]|Value
+{
+    if (!isSymmetric(x))
+    {
+        return Value.error('not a symmetric matrix');
+    }
+
+    let n = x.rows;
+    let l: number[][] = toRows(x).map((row: number[]) => row.map(() => 0));
+    for (let j = 0; j < n; j++)
+    {
+        let diagonal = x.entry(j, j);
+        for (let k = 0; k < j; k++)
+        {
+            diagonal -= l[j][k] * l[j][k];
+        }
+        if (diagonal <= 0)
+        {
+            return Value.error('not positive definite');
+        }
+        l[j][j] = Math.sqrt(diagonal);
+        for (let i = j + 1; i < n; i++)
+        {
+            let sum = x.entry(i, j);
+            for (let k = 0; k < j; k++)
+            {
+                sum -= l[i][k] * l[j][k];
+            }
+            l[i][j] = sum / l[j][j];
+        }
+    }
+    return [['L', fromRows(l)]];
+}
+
+// Decomposes a symmetric matrix, eg. a covariance matrix or inertia tensor, into its eigenvalues, largest first, and a
+// matrix whose columns are the corresponding unit eigenvectors
+export function eigenDecomposition(x: Value): [string, Value][]|Value
+{
+    if (!isSymmetric(x))
+    {
+        return Value.error('not a symmetric matrix');
+    }
+
+    let eigen = symmetricEigen(x);
+    let order = eigen.values.map((value: number, i: number) => i).sort((a: number, b: number) => eigen.values[b] - eigen.values[a]);
+    let values = order.map((i: number) => eigen.values[i]);
+    let vectors = order.map((i: number) => positive(eigen.vectors[i]));
+    return [['eigenvalues', new Value(values)], ['eigenvectors', fromColumns(vectors, x.rows)]];
+}
+export let eigenvalues = (x: Value) => part(eigenDecomposition(x), 'eigenvalues');
+
+// Decomposes a matrix into x = U S V^T, with the columns of U and V orthonormal and S the vector of the singular values
+// on the diagonal, largest first.  An m x n matrix has min(m, n) singular values.
+export function singularValueDecomposition(x: Value): [string, Value][]|Value
+{
+    if (x.dimensions !== 2)
+    {
+        return Value.error('not a matrix');
+    }
+    if (x.rows < x.cols)
+    {
+        // x^T = V S U^T.  The transpose of a matrix with one row is a vector.
+        let parts = tallSingularValueDecomposition(transpose(x));
+        return [['U', parts[2][1]], ['S', parts[1][1]], ['V', parts[0][1]]];
+    }
+    return tallSingularValueDecomposition(x);
+}
+export let singularValues = (x: Value) => part(singularValueDecomposition(x), 'S');
+
+// Decomposes a matrix, or a vector as a matrix of one column, with at least as many rows as columns, for
+// singularValueDecomposition
+function tallSingularValueDecomposition(x: Value): [string, Value][]
+{
+    // Rotate pairs of columns of x until they are orthogonal, by the one-sided Jacobi algorithm.  The accumulated
+    // rotations are V, and the lengths of the columns are the singular values.
+    let m = x.rows;
+    let n = x.cols;
+    let u: number[][] = [];
+    let v: number[][] = [];
+    for (let j = 0; j < n; j++)
+    {
+        u.push([...x.col(j)]);
+        v.push(new Array(n).fill(0));
+        v[j][j] = 1;
+    }
+    let dot = (a: number[], b: number[]) => a.reduce((sum: number, e: number, i: number) => sum + e * b[i], 0);
+    for (let sweep = 0; sweep < 100; sweep++)
+    {
+        let rotated = false;
+        for (let p = 0; p < n; p++)
+        {
+            for (let q = p + 1; q < n; q++)
+            {
+                let alpha = dot(u[p], u[p]);
+                let beta = dot(u[q], u[q]);
+                let gamma = dot(u[p], u[q]);
+                if (Math.abs(gamma) <= 1e-15 * Math.sqrt(alpha * beta))
+                {
+                    continue;
+                }
+                rotated = true;
+                let zeta = (beta - alpha) / (2 * gamma);
+                let t = Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(zeta * zeta + 1));
+                let c = 1 / Math.sqrt(t * t + 1);
+                let s = c * t;
+                for (const cols of [u, v])
+                {
+                    for (let k = 0; k < cols[p].length; k++)
+                    {
+                        let ep = cols[p][k];
+                        let eq = cols[q][k];
+                        cols[p][k] = c * ep - s * eq;
+                        cols[q][k] = s * ep + c * eq;
+                    }
+                }
+            }
+        }
+        if (!rotated)
+        {
+            break;
+        }
+    }
+
+    // Sort by singular value and normalize the columns of U
+    let singular = u.map((col: number[]) => Math.sqrt(dot(col, col)));
+    let order = singular.map((value: number, i: number) => i).sort((a: number, b: number) => singular[b] - singular[a]);
+    let tolerance = singular[order[0]] * Math.max(m, n) * Number.EPSILON;
+    let uCols: number[][] = [];
+    let vCols: number[][] = [];
+    for (const i of order)
+    {
+        let col = u[i];
+        if (singular[i] > tolerance)
+        {
+            col = col.map((e: number) => e / singular[i]);
+        }
+        else
+        {
+            // The column is zero, so choose any unit vector perpendicular to the others
+            singular[i] = 0;
+            for (let k = 0; k < m; k++)
+            {
+                col = new Array(m).fill(0);
+                col[k] = 1;
+                uCols.forEach((other: number[]) =>
+                {
+                    let d = dot(col, other);
+                    col = col.map((e: number, j: number) => e - d * other[j]);
+                });
+                let length = Math.sqrt(dot(col, col));
+                if (length > 0.5)
+                {
+                    col = col.map((e: number) => e / length);
+                    break;
+                }
+            }
+        }
+        uCols.push(col);
+        vCols.push(v[i]);
+    }
+    return [['U', fromColumns(uCols, m)], ['S', new Value(order.map((i: number) => singular[i]))], ['V', fromColumns(vCols, n)]];
+}
+
+// Decomposes a square matrix into x = R S, with R orthogonal and S symmetric positive semi-definite.  R is the
+// orthogonal matrix nearest to x, eg. a rotation matrix with the error accumulated by repeated multiplication removed.
+export function polarDecomposition(x: Value): [string, Value][]|Value
+{
+    if (!isSquare(x))
+    {
+        return Value.error('not a square matrix');
+    }
+    let svd = singularValueDecomposition(x);
+    if (svd instanceof Value)
+    {
+        return svd;
+    }
+    let u = svd[0][1];
+    let s = svd[1][1];
+    let v = svd[2][1];
+    let scaled = new Value(v, v.rows);
+    for (let j = 0; j < v.cols; j++)
+    {
+        for (let i = 0; i < v.rows; i++)
+        {
+            scaled[scaled.index(i, j)] *= s[j];
+        }
+    }
+    return [['R', matrixMultiply(u, transpose(v))], ['S', matrixMultiply(scaled, transpose(v))]];
+}
+export let orthonormalize = (x: Value) => part(polarDecomposition(x), 'R');
+
+// Returns the part of a decomposition with the given name, or the decomposition if it failed
+function part(parts: [string, Value][]|Value, name: string): Value
+{
+    if (parts instanceof Value)
+    {
+        return parts;
+    }
+    let found = parts.find((part: [string, Value]) => part[0] === name);
+    return (found === undefined ? Value.error('no ' + name) : found[1]);
+}
+
+// Finds the eigenvalues and unit eigenvectors of a symmetric matrix by the Jacobi eigenvalue algorithm, which
+// rotates pairs of rows and columns until the off-diagonal entries vanish.
+function symmetricEigen(x: Value): { values: number[], vectors: number[][] }
+{
+    let n = x.rows;
+    let a: number[][] = [];
+    let v: number[][] = [];
+    for (let i = 0; i < n; i++)
+    {
+        a.push([]);
+        v.push([]);
+        for (let j = 0; j < n; j++)
+        {
+            a[i].push(x.entry(i, j));
+            v[i].push(i === j ? 1 : 0);
+        }
+    }
+
+    // Stop when the off-diagonal entries are negligible relative to the whole matrix, so that matrices of small
+    // entries are still diagonalized.  The zero matrix is already diagonal.
+    let norm2 = 0;
+    a.forEach((row: number[]) => row.forEach((e: number) => norm2 += e * e));
+    for (let sweep = 0; sweep < 100 && norm2 > 0; sweep++)
+    {
+        let off = 0;
+        for (let p = 0; p < n; p++)
+        {
+            for (let q = p + 1; q < n; q++)
+            {
+                off += a[p][q] * a[p][q];
+            }
+        }
+        if (off <= 1e-30 * norm2)
+        {
+            break;
+        }
+
+        for (let p = 0; p < n; p++)
+        {
+            for (let q = p + 1; q < n; q++)
+            {
+                if (a[p][q] === 0)
+                {
+                    continue;
+                }
+
+                // Rotate rows and columns p and q by the angle that zeroes a[p][q]
+                let theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                let t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                let c = 1 / Math.sqrt(t * t + 1);
+                let s = t * c;
+                for (let k = 0; k < n; k++)
+                {
+                    let akp = a[k][p];
+                    let akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++)
+                {
+                    let apk = a[p][k];
+                    let aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++)
+                {
+                    let vkp = v[k][p];
+                    let vkq = v[k][q];
+                    v[k][p] = c * vkp - s * vkq;
+                    v[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    // The eigenvectors are the columns of the accumulated rotations
+    let values: number[] = [];
+    let vectors: number[][] = [];
+    for (let i = 0; i < n; i++)
+    {
+        values.push(a[i][i]);
+        vectors.push(v.map((row: number[]) => row[i]));
+    }
+    return { values: values, vectors: vectors };
+}
+
+// Converts a 3x3 rotation matrix, or the top left 3x3 of a larger matrix, to quaternion ix + jy + kz + w with w >= 0.
+// Returns Value.invalid if m is smaller than 3x3.
+export function matrixToQuaternion(m: Value): Value
+{
+    if (m.dimensions !== 2 || m.rows < 3 || m.cols < 3)
+    {
+        return Value.error('requires a matrix of at least 3x3');
+    }
+
+    // Use the largest of w, x, y and z to avoid dividing by a small number
+    let e = (row: number, col: number) => m.entry(row, col);
+    let trace = e(0, 0) + e(1, 1) + e(2, 2);
+    let q: number[];
+    if (trace > 0)
+    {
+        let s = Math.sqrt(trace + 1) * 2;
+        q = [(e(2, 1) - e(1, 2)) / s, (e(0, 2) - e(2, 0)) / s, (e(1, 0) - e(0, 1)) / s, s / 4];
+    }
+    else if (e(0, 0) > e(1, 1) && e(0, 0) > e(2, 2))
+    {
+        let s = Math.sqrt(1 + e(0, 0) - e(1, 1) - e(2, 2)) * 2;
+        q = [s / 4, (e(0, 1) + e(1, 0)) / s, (e(0, 2) + e(2, 0)) / s, (e(2, 1) - e(1, 2)) / s];
+    }
+    else if (e(1, 1) > e(2, 2))
+    {
+        let s = Math.sqrt(1 + e(1, 1) - e(0, 0) - e(2, 2)) * 2;
+        q = [(e(0, 1) + e(1, 0)) / s, s / 4, (e(1, 2) + e(2, 1)) / s, (e(0, 2) - e(2, 0)) / s];
+    }
+    else
+    {
+        let s = Math.sqrt(1 + e(2, 2) - e(0, 0) - e(1, 1)) * 2;
+        q = [(e(0, 2) + e(2, 0)) / s, (e(1, 2) + e(2, 1)) / s, s / 4, (e(1, 0) - e(0, 1)) / s];
+    }
+    return normalize(new Value(q[3] < 0 ? q.map((x: number) => -x) : q));
+}
+
+// Returns the affine transform represented by a matrix as a 3x4 matrix, three columns of rotation and scale followed by
+// a translation column, or Value.invalid if m is not a transform.  3x4 matrices and the top three rows of 4x4 matrices
+// transform column vectors, 3x3 matrices have no translation, and 4x3 matrices transform row vectors and are transposed.
+function toAffine(m: Value): Value
+{
+    if (m.dimensions !== 2)
+    {
+        return Value.error('not a transform matrix');
+    }
+    if (m.rows === 4 && m.cols === 3)
+    {
+        m = transpose(m);
+    }
+    if (m.rows < 3 || m.rows > 4 || m.cols < 3 || m.cols > 4)
+    {
+        return Value.error('not a transform matrix, 3x3, 3x4, 4x3 or 4x4');
+    }
+
+    let x: number[] = [];
+    for (let col = 0; col < 4; col++)
+    {
+        for (let row = 0; row < 3; row++)
+        {
+            x.push(col < m.cols ? m.entry(row, col) : 0);
+        }
+    }
+    return new Value(x, 3);
+}
+
+// Returns true if m is a matrix that can be used as an affine transform, see toAffine
+export function isTransform(m: Value): boolean
+{
+    return toAffine(m).valid;
+}
+
+// Returns a 3x4 affine transform as a matrix of the same shape as m, the inverse of toAffine
+function fromAffine(a: Value, m: Value): Value
+{
+    let rows = Math.min(m.rows, m.cols);
+    let cols = Math.max(m.rows, m.cols);
+    let x: number[] = [];
+    for (let col = 0; col < cols; col++)
+    {
+        for (let row = 0; row < rows; row++)
+        {
+            x.push(row < 3 ? a.entry(row, col) : (col === 3 ? 1 : 0));
+        }
+    }
+    let result = new Value(x, rows);
+    return (m.rows === 4 && m.cols === 3 ? transpose(result) : result);
+}
+
+// Returns a 4x4 matrix with the given columns of rotation and scale, and translation
+function homogeneous(cols: number[][]): Value
+{
+    return new Value([...cols[0], 0, ...cols[1], 0, ...cols[2], 0, ...cols[3], 1], 4);
+}
+
+// Orders the operands of an operator that takes a transform and a vector so that they can be given in either order
+function transformAndVector(a: Value, b: Value): [Value, Value]
+{
+    return (a.dimensions === 1 && b.dimensions === 2 ? [b, a] : [a, b]);
+}
+
+// Transforms point xyz(v) by a transform matrix, see toAffine.  4x4 matrices are applied to (v, 1), and the result
+// divided by its w if it is not 1.  Returns Value.invalid if either operand is not of those types.
+export function transformPoint(a: Value, b: Value): Value
+{
+    let [m, v] = transformAndVector(a, b);
+    let affine = toAffine(m);
+    let p = xyz(v);
+    if (!affine.valid || !p.valid)
+    {
+        return (affine.valid ? p : affine);
+    }
+
+    let result = matrixMultiply(affine, new Value([...p, 1]));
+    if (m.rows === 4 && m.cols === 4)
+    {
+        let w = m.entry(3, 0) * p[0] + m.entry(3, 1) * p[1] + m.entry(3, 2) * p[2] + m.entry(3, 3);
+        if (w !== 1 && w !== 0)
+        {
+            result = divPairs(result, Value.scalar(w));
+        }
+    }
+    return result;
+}
+
+// Transforms direction xyz(v) by a transform matrix, see toAffine, ignoring its translation.
+// Returns Value.invalid if either operand is not of those types.
+export function transformDirection(a: Value, b: Value): Value
+{
+    let [m, v] = transformAndVector(a, b);
+    let affine = toAffine(m);
+    let d = xyz(v);
+    if (!affine.valid || !d.valid)
+    {
+        return (affine.valid ? d : affine);
+    }
+    return matrixMultiply(affine, new Value([...d, 0]));
+}
+
+// Returns the transform that applies transform b and then transform a, the same shape as a.
+// Returns Value.invalid if either is not a transform matrix, see toAffine.
+export function compose(a: Value, b: Value): Value
+{
+    let first = toAffine(b);
+    let second = toAffine(a);
+    if (!first.valid || !second.valid)
+    {
+        return (first.valid ? second : first);
+    }
+
+    let firstFull = homogeneous([[...first.col(0)], [...first.col(1)], [...first.col(2)], [...first.col(3)]]);
+    return fromAffine(matrixMultiply(second, firstFull), a);
+}
+
+// Returns the inverse of an affine transform, the same shape as m.  The bottom row of a 4x4 matrix is ignored.
+// Returns Value.invalid if m is not a transform matrix, see toAffine, or if it is singular.
+export function affineInverse(m: Value): Value
+{
+    let affine = toAffine(m);
+    if (!affine.valid)
+    {
+        return affine;
+    }
+
+    let linear = inverse(new Value(affine.slice(0, 9), 3));
+    if (!linear.valid)
+    {
+        return linear;
+    }
+    let translation = negate(matrixMultiply(linear, affine.col(3)));
+    return fromAffine(new Value([...linear, ...translation], 3), m);
+}
+
+// Splits an affine transform into a translation, a rotation quaternion ix + jy + kz + w and a scale along each axis,
+// that give the transform when applied in the order scale, rotation, translation.  A reflection is given by a negative x scale.
+// Returns undefined if m is not a transform matrix, see toAffine, or if any scale is zero.
+export function decompose(m: Value): { translation: Value, rotation: Value, scale: Value }|undefined
+{
+    let affine = toAffine(m);
+    if (!affine.valid)
+    {
+        return undefined;
+    }
+
+    let axes = [affine.col(0), affine.col(1), affine.col(2)];
+    let scale = axes.map((axis: Value) => magnitude(axis)[0]);
+    if (scale.some((s: number) => s === 0))
+    {
+        return undefined;
+    }
+    if (determinant(new Value(affine.slice(0, 9), 3))[0] < 0)
+    {
+        scale[0] = -scale[0];
+    }
+    let rotation: number[] = [];
+    axes.forEach((axis: Value, i: number) => rotation.push(...divPairs(axis, Value.scalar(scale[i]))));
+    return {
+        translation: affine.col(3),
+        rotation: matrixToQuaternion(new Value(rotation, 3)),
+        scale: new Value(scale)
+    };
+}
+
+// Returns the 4x4 transform that translates by xyz(v), or Value.invalid if v is not a vector of at least three components
+export function translation(v: Value): Value
+{
+    let t = xyz(v);
+    if (!t.valid)
+    {
+        return t;
+    }
+    return homogeneous([[1, 0, 0], [0, 1, 0], [0, 0, 1], [...t]]);
+}
+
+// Returns the 4x4 transform that scales by xyz(v), or by v along every axis if it is a scalar.
+// Returns Value.invalid if v is a vector of fewer than three components.
+export function scale(v: Value): Value
+{
+    let s = (v.dimensions === 0 ? new Value([v[0], v[0], v[0]]) : xyz(v));
+    if (!s.valid)
+    {
+        return s;
+    }
+    return homogeneous([[s[0], 0, 0], [0, s[1], 0], [0, 0, s[2]], [0, 0, 0]]);
+}
+
+// Returns the 4x4 view transform of a camera at xyz(eye) looking towards xyz(target), with up towards xyz(up), the same
+// as gluLookAt: the camera looks along -z with y up.  Returns Value.invalid if the operands are not vectors of at least
+// three components, or if eye and target are the same or the direction between them is parallel to up.
+export function lookAt(eye: Value, target: Value, up: Value): Value
+{
+    let e = xyz(eye);
+    let f = normalize(subPairs(xyz(target), e));
+    let s = normalize(cross(f, xyz(up)));
+    if (!f.valid || !s.valid || !f.every(isFinite) || !s.every(isFinite))
+    {
+        return Value.error('eye and target are the same or in the up direction, or not vectors of at least 3 components');
+    }
+    let u = cross(s, f);
+    return homogeneous([
+        [s[0], u[0], -f[0]],
+        [s[1], u[1], -f[1]],
+        [s[2], u[2], -f[2]],
+        [-dot(s, e)[0], -dot(u, e)[0], dot(f, e)[0]]
+    ]);
+}
+
+// Applies an integer operator per component the same way as opPairs.  Returns Value.invalid if either
+// value has a component that is not an integer, or if op returns a string, the reason it is not defined for a pair of components.
+export function integerPairs(a: Value, b: Value, op: (a: bigint, b: bigint) => bigint|string): Value
+{
+    if (!a.isInteger() || !b.isInteger() || ((a.length !== b.length || a.rows !== b.rows) && a.dimensions !== 0 && b.dimensions !== 0))
+    {
+        return Value.error(a.isInteger() && b.isInteger() ? sizeMismatch(a, b).reason : 'not integers');
+    }
+
+    let result: bigint[] = [];
+    let length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++)
+    {
+        let x = op(a.integer(i % a.length), b.integer(i % b.length));
+        if (typeof x === 'string')
+        {
+            return Value.error(x);
+        }
+        result.push(x);
+    }
+    return Value.integers(result, Math.max(a.rows, b.rows));
+}
+
+// Applies an integer operator to each component of x.  Returns Value.invalid if x has a component that is not an integer.
+export function integerUnary(x: Value, op: (x: bigint) => bigint): Value
+{
+    if (!x.isInteger())
+    {
+        return Value.error('not integers');
+    }
+    let result: bigint[] = [];
+    for (let i = 0; i < x.length; i++)
+    {
+        result.push(op(x.integer(i)));
+    }
+    return Value.integers(result, x.rows);
+}
+
+// Bitwise operators.  Negative integers are treated as two's complement, and operators that depend on the width
+// of the integers read them as unsigned integers of the given number of bits.
+export let and = (a: Value, b: Value) => integerPairs(a, b, (x: bigint, y: bigint) => x & y);
+export let or = (a: Value, b: Value) => integerPairs(a, b, (x: bigint, y: bigint) => x | y);
+export let xor = (a: Value, b: Value) => integerPairs(a, b, (x: bigint, y: bigint) => x ^ y);
+export let not = (x: Value, bits: number) => integerUnary(x, (x: bigint) => BigInt.asUintN(bits, ~x));
+
+// Shifts and rotates a by b bits.  Bits shifted or rotated past the width are lost or wrap around.  Shifting left
+// by the width or more gives 0 without making the shifted integer.
+export let shl = (a: Value, b: Value, bits: number) => integerPairs(a, b, (x: bigint, y: bigint) =>
+    (y < 0 ? 'negative shift' : y >= BigInt(bits) ? BigInt(0) : BigInt.asUintN(bits, x << y)));
+export let shr = (a: Value, b: Value, bits: number) => integerPairs(a, b, (x: bigint, y: bigint) =>
+    (y < 0 ? 'negative shift' : BigInt.asUintN(bits, x) >> y));
+export let rotl = (a: Value, b: Value, bits: number) => integerPairs(a, b, (x: bigint, y: bigint) => rotate(x, y, bits));
+export let rotr = (a: Value, b: Value, bits: number) => integerPairs(a, b, (x: bigint, y: bigint) => rotate(x, -y, bits));
+
+function rotate(x: bigint, left: bigint, bits: number): bigint
+{
+    let width = BigInt(bits);
+    left = ((left % width) + width) % width;
+    x = BigInt.asUintN(bits, x);
+    return BigInt.asUintN(bits, (x << left) | (x >> (width - left)));
+}
+
+// Counts the one bits, leading zero bits and trailing zero bits
+export let popcount = (x: Value, bits: number) => integerUnary(x, (x: bigint) =>
+    BigInt(BigInt.asUintN(bits, x).toString(2).replace(/0/g, '').length));
+export let clz = (x: Value, bits: number) => integerUnary(x, (x: bigint) =>
+    BigInt(bits - (BigInt.asUintN(bits, x) === BigInt(0) ? 0 : BigInt.asUintN(bits, x).toString(2).length)));
+export let ctz = (x: Value, bits: number) => integerUnary(x, (x: bigint) =>
+{
+    let binary = BigInt.asUintN(bits, x).toString(2);
+    return BigInt(binary.search(/^0*$/) >= 0 ? bits : binary.length - 1 - binary.lastIndexOf('1'));
+});
+
+// Integer division and remainder, rounding towards zero as in C.  Division by zero gives Value.invalid.
+export let div = (a: Value, b: Value) => integerPairs(a, b, (x: bigint, y: bigint) => (y === BigInt(0) ? 'division by zero' : x / y));
+export let mod = (a: Value, b: Value) => integerPairs(a, b, (x: bigint, y: bigint) => (y === BigInt(0) ? 'division by zero' : x % y));
+
+// Extracts bits hi down to lo of each component, eg. bits 7:4 of 0xabcd is 0xc
+export function bitField(x: Value, hi: number, lo: number): Value
+{
+    if (hi < lo || lo < 0)
+    {
+        return Value.error('hi ' + hi + ' < lo ' + lo);
+    }
+    return integerUnary(x, (x: bigint) => BigInt.asUintN(hi - lo + 1, x >> BigInt(lo)));
+}
+
+// Sizes of the fields of IEEE 754 floating point numbers, by the number of bits
+const floatFields = new Map<number, { exponent: number, mantissa: number }>([
+    [16, { exponent: 5, mantissa: 10 }],
+    [32, { exponent: 8, mantissa: 23 }],
+    [64, { exponent: 11, mantissa: 52 }]
+]);
+
+// Rounds x to the nearest integer, with ties to even
+function roundEven(x: number): number
+{
+    let floor = Math.floor(x);
+    let fraction = x - floor;
+    return (fraction > 0.5 || (fraction === 0.5 && floor % 2 !== 0) ? floor + 1 : floor);
+}
+
+// Returns the bits of the half precision number nearest to x
+function halfBits(x: number): number
+{
+    let sign = (x < 0 || Object.is(x, -0) ? 0x8000 : 0);
+    x = Math.abs(x);
+    if (isNaN(x))
+    {
+        return 0x7e00;
+    }
+    if (x >= 65520)
+    {
+        // Rounds to infinity
+        return sign | 0x7c00;
+    }
+    if (x < Math.pow(2, -14))
+    {
+        // Subnormal, possibly rounding up to the smallest normal number
+        return sign | roundEven(x * Math.pow(2, 24));
+    }
+    let exponent = Math.floor(Math.log2(x));
+    exponent += (Math.pow(2, exponent) > x ? -1 : (Math.pow(2, exponent + 1) <= x ? 1 : 0));
+    // A mantissa that rounds up to 1024 carries into the exponent
+    return sign | (((exponent + 15) << 10) + roundEven((x / Math.pow(2, exponent) - 1) * 1024));
+}
+
+// Returns the value of a half precision number from its bits
+function halfValue(bits: number): number
+{
+    let sign = (bits & 0x8000 ? -1 : 1);
+    let exponent = (bits >> 10) & 0x1f;
+    let mantissa = bits & 0x3ff;
+    switch (exponent)
+    {
+        case 0: return sign * mantissa * Math.pow(2, -24);
+        case 0x1f: return (mantissa === 0 ? sign * Infinity : NaN);
+        default: return sign * (1 + mantissa / 1024) * Math.pow(2, exponent - 15);
+    }
+}
+
+// Returns the floating point number of the given size with bits as its bit pattern
+function floatFromBits(bits: bigint, size: number): number
+{
+    let view = new DataView(new ArrayBuffer(8));
+    switch (size)
+    {
+        case 16: return halfValue(Number(bits));
+        case 32: view.setUint32(0, Number(bits)); return view.getFloat32(0);
+        default: view.setBigUint64(0, bits); return view.getFloat64(0);
+    }
+}
+
+// Returns the bit pattern of the floating point number of the given size nearest to x
+function bitsFromFloat(x: number, size: number): bigint
+{
+    let view = new DataView(new ArrayBuffer(8));
+    switch (size)
+    {
+        case 16: return BigInt(halfBits(x));
+        case 32: view.setFloat32(0, x); return BigInt(view.getUint32(0));
+        default: view.setFloat64(0, x); return view.getBigUint64(0);
+    }
+}
+
+// Reinterprets each component, an integer of size bits, as the bits of a 16, 32 or 64-bit floating point number,
+// eg. asFloat(0x3f800000, 32) is 1.  Returns Value.invalid if x has a component that is not an integer.
+export function asFloat(x: Value, size: number): Value
+{
+    if (!x.isInteger())
+    {
+        return Value.error('not integers');
+    }
+    let y: number[] = [];
+    for (let i = 0; i < x.length; i++)
+    {
+        y.push(floatFromBits(BigInt.asUintN(size, x.integer(i)), size));
+    }
+    return new Value(y, x.rows);
+}
+
+// Returns the bits of the 16, 32 or 64-bit floating point number nearest to each component, eg. floatBits(1, 32) is 0x3f800000
+export function floatBits(x: Value, size: number): Value
+{
+    let y: bigint[] = [];
+    x.forEach((x: number) => y.push(bitsFromFloat(x, size)));
+    return Value.integers(y, x.rows);
+}
+
+export let asFloat16 = (x: Value) => asFloat(x, 16);
+export let asFloat32 = (x: Value) => asFloat(x, 32);
+export let asFloat64 = (x: Value) => asFloat(x, 64);
+export let floatBits16 = (x: Value) => floatBits(x, 16);
+export let floatBits32 = (x: Value) => floatBits(x, 32);
+export let floatBits64 = (x: Value) => floatBits(x, 64);
+
+// Describes the sign, exponent and mantissa fields of a 16, 32 or 64-bit floating point number from its bits, eg.
+// "0x3fc00000 = 1.5: sign 0, exponent 0x7f (2^0), mantissa 0x400000 (1 + 4194304 / 2^23)"
+export function describeFloat(bits: bigint, size: number): string
+{
+    let fields = floatFields.get(size);
+    if (fields === undefined)
+    {
+        return '';
+    }
+    bits = BigInt.asUintN(size, bits);
+    let sign = bits >> BigInt(size - 1);
+    let exponent = Number((bits >> BigInt(fields.mantissa)) & ((BigInt(1) << BigInt(fields.exponent)) - BigInt(1)));
+    let mantissa = bits & ((BigInt(1) << BigInt(fields.mantissa)) - BigInt(1));
+    let bias = (1 << (fields.exponent - 1)) - 1;
+    let hex = (x: bigint, digits: number) =>
+    {
+        let str = x.toString(16);
+        while (str.length < Math.ceil(digits / 4))
+        {
+            str = '0' + str;
+        }
+        return '0x' + str;
+    };
+
+    let meaning: string;
+    if (exponent === 0)
+    {
+        meaning = '(subnormal 2^' + (1 - bias) + '), mantissa ' + hex(mantissa, fields.mantissa) + ' (0 + ' + mantissa + ' / 2^' + fields.mantissa + ')';
+    }
+    else if (exponent === (1 << fields.exponent) - 1)
+    {
+        meaning = '(' + (mantissa === BigInt(0) ? 'infinity' : 'NaN') + '), mantissa ' + hex(mantissa, fields.mantissa);
+    }
+    else
+    {
+        meaning = '(2^' + (exponent - bias) + '), mantissa ' + hex(mantissa, fields.mantissa) + ' (1 + ' + mantissa + ' / 2^' + fields.mantissa + ')';
+    }
+    return hex(bits, size) + ' = ' + floatFromBits(bits, size) + ': sign ' + sign + ', exponent ' + hex(BigInt(exponent), fields.exponent) + ' ' + meaning;
+}
+
+// Statistics over datasets.  A dataset of scalars is a vector, and a dataset of points is a matrix whose columns are the
+// points, eg. the values on a line of text.
+
+// Returns the sum of the components of a vector, or of the columns of a matrix
+export function sum(x: Value): Value
+{
+    if (x.dimensions === 1 && x.exact !== undefined)
+    {
+        return Value.integers([x.exact.reduce((a: bigint, b: bigint) => a + b, BigInt(0))], 1);
+    }
+    return reduceColumns(x, (values: number[]) => values.reduce((a: number, b: number) => a + b, 0));
+}
+
+// Returns the mean of the components of a vector, or the centroid of the columns of a matrix
+export function mean(x: Value): Value
+{
+    return reduceColumns(x, (values: number[]) => values.reduce((a: number, b: number) => a + b, 0) / values.length);
+}
+export let centroid = (points: Value) => (points.dimensions === 2 ? mean(points) : Value.error('not a matrix of points'));
+
+// Returns the least or greatest of a list of numbers, without passing them all as arguments to Math.min or Math.max,
+// which fails for long lists
+export function least(values: number[]): number
+{
+    return values.reduce((a: number, b: number) => Math.min(a, b), Infinity);
+}
+export function greatest(values: number[]): number
+{
+    return values.reduce((a: number, b: number) => Math.max(a, b), -Infinity);
+}
+
+// Returns the least or greatest component of a vector, or the least or greatest value of each component of the
+// columns of a matrix
+export function min(x: Value): Value
+{
+    return reduceColumns(x, (values: number[]) => least(values));
+}
+export function max(x: Value): Value
+{
+    return reduceColumns(x, (values: number[]) => greatest(values));
+}
+
+// Returns the middle component of a vector, or the mean of the middle two if it has an even number of components
+export function median(x: Value): Value
+{
+    if (x.dimensions !== 1)
+    {
+        return Value.error('not a vector');
+    }
+    let sorted = [...x].sort((a: number, b: number) => a - b);
+    let middle = Math.floor(sorted.length / 2);
+    return Value.scalar(sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+// Returns the sample standard deviation of the components of a vector
+export function standardDeviation(x: Value): Value
+{
+    if (x.dimensions !== 1)
+    {
+        return Value.error('not a vector');
+    }
+    if (x.length < 2)
+    {
+        return Value.error('requires at least 2 values');
+    }
+    let m = mean(x)[0];
+    let squares = 0;
+    x.forEach((value: number) => squares += (value - m) * (value - m));
+    return Value.scalar(Math.sqrt(squares / (x.length - 1)));
+}
+
+// Counts the components of a vector in each of a number of bins of equal width between the least and greatest
+// components.  Returns a vector of the counts, or Value.invalid if bins is not a positive integer or is more than the
+// number of components.
+export function histogram(x: Value, bins: Value): Value
+{
+    if (x.dimensions !== 1)
+    {
+        return Value.error('not a vector');
+    }
+    let count = bins[0];
+    if (bins.dimensions !== 0 || !Number.isInteger(count) || count < 1)
+    {
+        return Value.error('bins must be a positive integer');
+    }
+    if (count > Math.max(x.length, histogramBins(x)))
+    {
+        return Value.error('more bins than values');
+    }
+    let lo = least(x);
+    let width = (greatest(x) - lo) / count;
+    let counts: number[] = new Array(count).fill(0);
+    x.forEach((value: number) => counts[width === 0 ? 0 : Math.min(Math.floor((value - lo) / width), count - 1)]++);
+    return new Value(counts);
+}
+
+// Returns the number of bins for a histogram of the components of a vector, the square root of their number
+export function histogramBins(x: Value): number
+{
+    return Math.max(1, Math.ceil(Math.sqrt(x.length)));
+}
+
+// Returns the bounding box of the columns of a matrix, a matrix whose columns are the least and greatest points
+export function boundingBox(points: Value): Value
+{
+    if (points.dimensions !== 2)
+    {
+        return Value.error('not a matrix of points');
+    }
+    return new Value([...min(points), ...max(points)], points.rows);
+}
+
+// Returns the sample covariance matrix of the columns of a matrix
+export function covariance(points: Value): Value
+{
+    if (points.dimensions !== 2)
+    {
+        return Value.error('not a matrix of points');
+    }
+    if (points.cols < 2)
+    {
+        return Value.error('requires at least 2 points');
+    }
+    let m = mean(points);
+    let c = new Value(new Array(points.rows * points.rows).fill(0), points.rows);
+    for (let k = 0; k < points.cols; k++)
+    {
+        for (let i = 0; i < points.rows; i++)
+        {
+            for (let j = 0; j < points.rows; j++)
+            {
+                c[c.index(i, j)] += (points.entry(i, k) - m[i]) * (points.entry(j, k) - m[j]) / (points.cols - 1);
+            }
+        }
+    }
+    return c;
+}
+
+// Returns the plane through the columns of a matrix with the least squared distance to them, as a vector (n, d) with
+// unit normal n, for which n . p + d = 0.  For 3D points, that is the plane ax + by + cz + d = 0 used by planeDistance.
+// The normal's largest component is positive.  Returns Value.invalid if there are fewer points than dimensions.
+export function bestFitPlane(points: Value): Value
+{
+    if (points.dimensions !== 2)
+    {
+        return Value.error('not a matrix of points');
+    }
+    if (points.cols < points.rows)
+    {
+        return Value.error('requires at least ' + points.rows + ' points');
+    }
+
+    // The normal is the direction of least variance
+    let eigen = symmetricEigen(covariance(points));
+    let smallest = eigen.values.indexOf(least(eigen.values));
+    let normal = eigen.vectors[smallest];
+    let largest = normal.reduce((a: number, b: number) => (Math.abs(b) > Math.abs(a) ? b : a), 0);
+    normal = normal.map((x: number) => (largest < 0 ? -x : x));
+    let m = mean(points);
+    let d = -normal.reduce((a: number, b: number, i: number) => a + b * m[i], 0);
+    return new Value([...normal, d]);
+}
+
+// Applies a reduction to the components of a vector to give a scalar, or to each component of the columns of a
+// matrix to give a vector
+function reduceColumns(x: Value, reduce: (values: number[]) => number): Value
+{
+    switch (x.dimensions)
+    {
+        case 1: return Value.scalar(reduce([...x]));
+        case 2:
+        {
+            let y: number[] = [];
+            for (let i = 0; i < x.rows; i++)
+            {
+                let values: number[] = [];
+                for (let j = 0; j < x.cols; j++)
+                {
+                    values.push(x.entry(i, j));
+                }
+                y.push(reduce(values));
+            }
+            return new Value(y);
+        }
+        default: return Value.error('not a vector or matrix');
+    }
+}
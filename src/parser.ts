@@ -1,3 +1,5 @@
+import { Constructor, Format, Value } from './value';
+
 export enum NodeType
 {
     List,
@@ -6,6 +8,36 @@ export enum NodeType
     Matrix
 };
 
+// A type name that can precede a vector or matrix in code, eg. float3(1, 2, 3) or np.array([[1, 2], [3, 4]]).
+// rows and cols are the size of the type, if it has a fixed size: vector types have only rows.
+// order is 'row' if the type's elements are listed row by row, or 'column' (the default) if column by column.
+export interface TypePrefix
+{
+    prefix: string;
+    rows?: number;
+    cols?: number;
+    order?: string;
+}
+
+// A problem found while parsing a line of text, eg. a token in a vector that is not a number, with its range in the line.
+// fix is a correction for it, if there is an obvious one.
+export interface Problem
+{
+    begin: number;
+    end: number;
+    message: string;
+    fix?: Fix;
+}
+
+// A correction to a problem: replace the range [begin, end) of the line with text.  title describes the change.
+export interface Fix
+{
+    begin: number;
+    end: number;
+    text: string;
+    title: string;
+}
+
 // A node in the parse tree for a line of text.
 // It can represent either a scalar, a vector, a matrix, or a list of nodes.
 // It includes the range of characters in the line that comprise the node, a list
@@ -15,6 +47,7 @@ export class Node
     constructor(begin: number, delim: string)
     {
         this.begin = begin;
+        this.opening = delim;
         switch (delim)
         {
             case '{': this.delim = '}'; break;
@@ -23,7 +56,8 @@ export class Node
         }
     }
 
-    close(end: number, parent: Node)
+    // Closes this node, adding it to parent unless it is empty.  Problems in it are added to problems.
+    close(end: number, parent: Node, problems: Problem[])
     {
         // Remove this if it's empty
         this.end = end;
@@ -31,6 +65,7 @@ export class Node
         {
             return;
         }
+        problems.push(...this.skipped);
 
         // Check for uniformity of children
         let type = this.items[0].type;
@@ -81,23 +116,174 @@ export class Node
             }
         } // else type remains none
 
+        // A list of vectors of different lengths is probably a mistake in a matrix
+        if (this.type === NodeType.List && this.opening !== '' && this.items.every((item: Node) => item.type === NodeType.Vector))
+        {
+            let lengths = this.items.map((item: Node) => item.items.length);
+            problems.push({ begin: this.begin, end: this.end,
+                message: 'Matrix has vectors of different lengths (' + lengths.join(', ') + '), so it is read as separate values' });
+        }
+
+        if (this.typePrefix !== undefined)
+        {
+            this.applyTypePrefix(this.typePrefix);
+        }
+
         if (parent !== null)
         {
             parent.items.push(this);
         }
     }
 
+    // Reinterprets this node according to the type prefix written before it
+    applyTypePrefix(typePrefix: TypePrefix)
+    {
+        // Wrapper around a single vector or matrix, eg. np.array([[1, 2], [3, 4]]).
+        // Take on the child's contents, keeping the wrapper as part of the prefix.
+        if (this.type === NodeType.List && this.items.length === 1 &&
+            (this.items[0].type === NodeType.Vector || this.items[0].type === NodeType.Matrix))
+        {
+            let child = this.items[0];
+            this.prefix = typePrefix.prefix + this.opening;
+            this.suffix = this.delim;
+            this.opening = child.opening;
+            this.delim = child.delim;
+            this.type = child.type;
+            this.items = child.items;
+        }
+        else
+        {
+            this.prefix = typePrefix.prefix;
+        }
+
+        // Matrix written as a flat list of elements, eg. float3x3(1, 2, 3, 4, 5, 6, 7, 8, 9).
+        // Group the elements into rows or columns.
+        this.rowMajor = (typePrefix.order === 'row');
+        let rows = typePrefix.rows;
+        let cols = typePrefix.cols;
+        if (this.type === NodeType.Vector && rows !== undefined && cols !== undefined && this.items.length === rows * cols)
+        {
+            let size = (this.rowMajor ? cols : rows);
+            let groups: Node[] = [];
+            for (let i = 0; i < this.items.length; i += size)
+            {
+                let group = new Node(this.items[i].begin, '');
+                group.end = this.items[i + size - 1].end;
+                group.type = NodeType.Vector;
+                group.items = this.items.slice(i, i + size);
+                groups.push(group);
+            }
+            this.type = NodeType.Matrix;
+            this.items = groups;
+            this.flat = true;
+        }
+    }
+
     type: NodeType = NodeType.List;
     begin: number = -1;
     end: number = -1;
+    opening: string = '';
     delim: string = '';
     items: Node[] = [];
+
+    // Type written before the node in code, if any.  prefix and suffix are the text before and after the
+    // node's own delimiters, eg. 'np.array(' and ')'.  Matrices can be written row by row, and flat matrices
+    // list their elements without grouping them into rows or columns.
+    typePrefix: TypePrefix|undefined = undefined;
+    prefix: string = '';
+    suffix: string = '';
+    rowMajor: boolean = false;
+    flat: boolean = false;
+
+    // Tokens in this node that were skipped because they are not numbers or delimiters that do not match it,
+    // reported if the node is not empty.  A node with a mismatched delimiter is not also reported as not closed.
+    skipped: Problem[] = [];
+    mismatched: boolean = false;
+}
+
+// Returns the type prefix that text ends with, or undefined if there is none.  If several match, the longest one
+// is returned.  The prefix must not be part of a longer name, but it can be qualified, eg. glm::vec3 matches vec3.
+function matchTypePrefix(text: string, typePrefixes: TypePrefix[]): TypePrefix|undefined
+{
+    let match: TypePrefix|undefined = undefined;
+    for (const typePrefix of typePrefixes)
+    {
+        let begin = text.length - typePrefix.prefix.length;
+        if (typePrefix.prefix.length > 0 && text.endsWith(typePrefix.prefix) && (begin === 0 || text[begin - 1].search(/[a-zA-Z0-9_]/) < 0) &&
+            (match === undefined || typePrefix.prefix.length > match.prefix.length))
+        {
+            match = typePrefix;
+        }
+    }
+    return match;
+}
+
+// Checks for a number at the beginning of text, and returns the characters that comprise it,
+// or null if text does not begin with a number.
+export function matchNumber(text: string): string|null
+{
+    // Match: beginning of string, [1]number, non-alphanumeric or end of string.
+    // The first set of parentheses in each expression must contain the number to consume, so that we find it in match[1].
+    // Check for a hexadecimal number
+    let match = text.match(/^(0x[0-9A-Fa-f]+)([^a-zA-Z0-9]|$)/);
+    if (match === null)
+    {
+        // Check for a binary number
+        match = text.match(/^(0b[01]+)([^a-zA-Z0-9]|$)/);
+    }
+    if (match === null)
+    {
+        // Check for a number with either no decimal or at least one digit to the left of it
+        match = text.match(/^(-?\d+\.?\d*([eE][+-]?\d+)?[fF]?)([^a-zA-Z0-9]|$)/);
+    }
+    if (match === null)
+    {
+        // Check for a number with digits only to the right of the decimal
+        match = text.match(/^(-?\.\d+([eE][+-]?\d+)?[fF]?)([^a-zA-Z0-9]|$)/);
+    }
+    return (match === null ? null : match[1]);
+}
+
+// Returns the value of a number matched by matchNumber().  Integers are also returned exactly, so that
+// values beyond the precision of a number, eg. 64-bit hexadecimal numbers, are not rounded.
+export function readNumber(numberStr: string): { x: number, exact: bigint|undefined }
+{
+    if (numberStr.substr(0, 2) === '0x' || numberStr.substr(0, 2) === '0b')
+    {
+        let exact = BigInt(numberStr);
+        return { x: Number(exact), exact: exact };
+    }
+    if (numberStr.search(/^-?\d+$/) >= 0)
+    {
+        let exact = BigInt(numberStr);
+        return { x: Number(exact), exact: exact };
+    }
+    return { x: parseFloat(numberStr), exact: undefined };
+}
+
+// Returns the problem for a token in a vector that is not a number, beginning at position begin in the line.
+// If it begins with a number, the fix is to remove the rest of it, eg. 3ff becomes 3f.
+function skippedToken(token: string, begin: number): Problem
+{
+    let problem: Problem = { begin: begin, end: begin + token.length, message: '"' + token + '" is not a number, so it is skipped' };
+    for (let length = token.length - 1; length > 0; length--)
+    {
+        let number = token.substr(0, length);
+        if (matchNumber(number) === number)
+        {
+            problem.fix = { begin: begin, end: begin + token.length, text: number, title: 'Change to "' + number + '"' };
+            break;
+        }
+    }
+    return problem;
 }
 
 // Parses a line of text to find numerical values and returns them in a tree.
 // For example if the line contains two 3-vectors, the tree will consist of a list node
 // with one child for each of the vectors, each of which has one child for each element.
-export function parse(line: string): Node
+// Vectors and matrices preceded by one of typePrefixes are read as that type, and their range includes the prefix.
+// Problems found in vectors and matrices, like tokens that are skipped or delimiters that do not match, are added to problems.
+export function parse(line: string, typePrefixes: TypePrefix[] = [], problems: Problem[] = []): Node
 {
     let nodes:Node[] = [new Node(0, '')];
     let i:number = 0;
@@ -106,17 +292,32 @@ export function parse(line: string): Node
     {
         let c = line[i];
 
+        // Closing delimiter that does not match the node it is in, eg. (1, 2]
+        let open = nodes[nodes.length - 1];
+        if (')]}'.indexOf(c) >= 0 && c !== open.delim && nodes.length > 1)
+        {
+            open.skipped.push({ begin: i, end: i + 1, message: '"' + c + '" does not match "' + open.opening + '", so it is ignored',
+                fix: { begin: i, end: i + 1, text: open.delim, title: 'Change to "' + open.delim + '"' } });
+            open.mismatched = true;
+        }
+
         if ('[({'.indexOf(c) >= 0)
         {
-            // Opening delimiter - create a new node
-            nodes.push(new Node(i, c));
+            // Opening delimiter - create a new node, beginning at its type prefix if it has one
+            let node = new Node(i, c);
+            node.typePrefix = matchTypePrefix(line.substr(0, i), typePrefixes);
+            if (node.typePrefix !== undefined)
+            {
+                node.begin -= node.typePrefix.prefix.length;
+            }
+            nodes.push(node);
             valid = true;
         }
         else if (c === nodes[nodes.length - 1].delim)
         {
             // Closing delimiter - close a node
             let node = nodes.pop();
-            node!.close(i + 1, nodes[nodes.length - 1]);
+            node!.close(i + 1, nodes[nodes.length - 1], problems);
             valid = true;
         }
         else if (valid)
@@ -131,25 +332,10 @@ export function parse(line: string): Node
             if (c.search(/[0-9-.]/) >= 0)
             {
                 valid = false; // A separator character will be required after this before the next number can begin
-                const rest = line.substr(i); // Search the line beginning from the current position
-
-                // Match: beginning of string, [1]number, non-alphanumeric or end of string.
-                // The first set of parentheses in each expression must contain the number to consume, so that we find it in match[1].
-                // Check for a hexadecimal number
-                let match = rest.match(/^(0x[0-9A-Fa-f]+)([^a-zA-Z0-9]|$)/);
-                if (match === null)
-                {
-                    // Check for a number with either no decimal or at least one digit to the left of it
-                    match = rest.match(/^(-?\d+\.?\d*([eE][+-]?\d+)?[fF]?)([^a-zA-Z0-9]|$)/);
-                }
-                if (match === null)
-                {
-                    // Check for a number with digits only to the right of the decimal
-                    match = rest.match(/^(-?\.\d+([eE][+-]?\d+)?[fF]?)([^a-zA-Z0-9]|$)/);
-                }
-                if (match !== null)
+                const numberStr = matchNumber(line.substr(i)); // Search the line beginning from the current position
+                if (numberStr !== null)
                 {
-                    let next = i + match[1].length;
+                    let next = i + numberStr.length;
                     let number = new Node(i, '');
                     number.end = next;
                     number.type = NodeType.Scalar;
@@ -157,6 +343,13 @@ export function parse(line: string): Node
                     i = next;
                     continue;
                 }
+
+                // Remember tokens in vectors that look like numbers but are not, eg. 3ff
+                let token = line.substr(i).match(/^.[a-zA-Z0-9-]*/)![0];
+                if (nodes.length > 1 && token.search(/[0-9]/) >= 0)
+                {
+                    nodes[nodes.length - 1].skipped.push(skippedToken(token, i));
+                }
             }
         }
         else if (c.search(/[^a-zA-Z0-9-]/) >= 0)
@@ -174,7 +367,13 @@ export function parse(line: string): Node
         if (child.items.length > 0)
         {
             let parent = nodes[nodes.length - 1];
-            child.close(child.items[child.items.length - 1].end, parent);
+            let end = child.items[child.items.length - 1].end;
+            if (!child.mismatched)
+            {
+                problems.push({ begin: child.begin, end: end, message: '"' + child.opening + '" is not closed',
+                    fix: { begin: end, end: end, text: child.delim, title: 'Insert "' + child.delim + '"' } });
+            }
+            child.close(end, parent, problems);
         } // else discard the empty node
     }
 
@@ -185,4 +384,254 @@ export function parse(line: string): Node
         node = node.items[0];
     }
     return node;
-}
\ No newline at end of file
+}
+
+// Converts a node parsed from line to a Value.  Returns Value.invalid if the node is a list rather than a
+// scalar, vector or matrix.  hex is true if none of the numbers in the node were written in decimal, and binary is
+// true if all of them were written in binary.
+export function toValue(line: string, node: Node): { value: Value, hex: boolean, binary: boolean }
+{
+    let x: number[] = [];
+    let exact: bigint[] = [];
+    let integers = true;
+    let hex = true;
+    let binary = true;
+    function enumerate(node: Node)
+    {
+        if (node.type === NodeType.Scalar)
+        {
+            let numberStr = line.substr(node.begin, node.end - node.begin);
+            let number = readNumber(numberStr);
+            x.push(number.x);
+            if (number.exact === undefined)
+            {
+                integers = false;
+            }
+            else
+            {
+                exact.push(number.exact);
+            }
+            let prefix = numberStr.substr(0, 2);
+            if (prefix !== '0x' && prefix !== '0b')
+            {
+                hex = false;
+            }
+            if (prefix !== '0b')
+            {
+                binary = false;
+            }
+        }
+        else
+        {
+            node.items.forEach((node: Node) => enumerate(node));
+        }
+    }
+    enumerate(node);
+
+    // Keep the exact values only if every element is an integer
+    function value(x: number[], exact: bigint[], rows: number): Value
+    {
+        return new Value(x, rows, integers ? exact : undefined);
+    }
+
+    switch(node.type)
+    {
+        case NodeType.Scalar: return { value: value(x, exact, 1), hex: hex, binary: binary };
+        case NodeType.Vector: return { value: value(x, exact, x.length), hex: hex, binary: binary };
+        case NodeType.Matrix:
+        {
+            if (!node.rowMajor)
+            {
+                return { value: value(x, exact, x.length / node.items.length), hex: hex, binary: binary };
+            }
+
+            // Rearrange rows into columns
+            let rows = node.items.length;
+            let cols = x.length / rows;
+            let y: number[] = [];
+            let yExact: bigint[] = [];
+            for (let i = 0; i < cols; i++)
+            {
+                for (let j = 0; j < rows; j++)
+                {
+                    y.push(x[j * cols + i]);
+                    if (integers)
+                    {
+                        yExact.push(exact[j * cols + i]);
+                    }
+                }
+            }
+            return { value: value(y, yExact, rows), hex: hex, binary: binary };
+        }
+        default: return { value: Value.invalid, hex: false, binary: false };
+    }
+}
+
+// Converts a list of values parsed from line to a dataset: a vector of the scalars in it, or a matrix whose columns are
+// the vectors in it.  Nested lists are flattened.  A node that is not a list is converted by toValue.
+// Returns Value.invalid if the list mixes scalars and vectors, or has vectors of different lengths or matrices.
+export function toDataset(line: string, node: Node): { value: Value, hex: boolean, binary: boolean }
+{
+    if (node.type !== NodeType.List)
+    {
+        return toValue(line, node);
+    }
+
+    let items: Node[] = [];
+    let enumerate = (node: Node) => (node.type === NodeType.List ? node.items.forEach(enumerate) : items.push(node));
+    enumerate(node);
+    let values = items.map((item: Node) => toValue(line, item));
+    if (values.length === 0)
+    {
+        return { value: Value.error('no values'), hex: false, binary: false };
+    }
+    let rows = values[0].value.length;
+    if (values.some((item: { value: Value }) => item.value.dimensions === 2 || item.value.dimensions !== values[0].value.dimensions || item.value.length !== rows))
+    {
+        return { value: Value.error('values must all be scalars or vectors of the same length'), hex: false, binary: false };
+    }
+
+    let x: number[] = [];
+    let exact: bigint[] = [];
+    values.forEach((item: { value: Value }) =>
+    {
+        x.push(...item.value);
+        exact.push(...(item.value.exact === undefined ? [] : item.value.exact));
+    });
+    let hex = values.every((item: { hex: boolean }) => item.hex);
+    let binary = values.every((item: { binary: boolean }) => item.binary);
+    return { value: new Value(x, rows === 1 ? x.length : rows, exact.length === x.length ? exact : undefined), hex: hex, binary: binary };
+}
+
+// Returns how a vector or matrix node is written, including its type prefix if it has one, so that other values can be
+// written the same way.  Returns undefined if the node is not a vector or matrix.
+export function constructorOf(line: string, node: Node): Constructor|undefined
+{
+    if (node.type !== NodeType.Vector && node.type !== NodeType.Matrix)
+    {
+        return undefined;
+    }
+
+    let item: Constructor|undefined = undefined;
+    let separator: string|undefined = undefined;
+    if (node.type === NodeType.Matrix && !node.flat)
+    {
+        let first = node.items[0];
+        item = { prefix: first.prefix, suffix: first.suffix, open: first.opening, close: first.delim, rowMajor: false, flat: false };
+        separator = line.substring(first.end, node.items[1].begin);
+    }
+    return {
+        prefix: node.prefix,
+        suffix: node.suffix,
+        open: node.opening,
+        close: node.delim,
+        rows: (node.typePrefix === undefined ? undefined : node.typePrefix.rows),
+        cols: (node.typePrefix === undefined ? undefined : node.typePrefix.cols),
+        rowMajor: node.rowMajor,
+        flat: node.flat,
+        item: item,
+        separator: separator
+    };
+}
+
+// Returns format changed to match the way the numbers in a node parsed from line are written, so that other values
+// can be written the same way.  Where the numbers are written inconsistently, the format is left unchanged.
+export function formatOf(line: string, node: Node, format: Format): Format
+{
+    let result: Format = { ...format };
+
+    // Find the numbers, and the innermost vector
+    let hexNumbers: string[] = [];
+    let decimalNumbers: string[] = [];
+    let vectors: Node[] = [];
+    function enumerate(node: Node)
+    {
+        if (node.type === NodeType.Scalar)
+        {
+            let numberStr = line.substr(node.begin, node.end - node.begin);
+            let prefix = numberStr.substr(0, 2);
+            if (prefix !== '0b')
+            {
+                (prefix === '0x' ? hexNumbers : decimalNumbers).push(numberStr);
+            }
+        }
+        else
+        {
+            if (node.type === NodeType.Vector)
+            {
+                vectors.push(node);
+            }
+            node.items.forEach((node: Node) => enumerate(node));
+        }
+    }
+    enumerate(node);
+
+    // Returns the value that f gives for every number in numbers, or undefined if it gives different values
+    function common<T>(numbers: string[], f: (numberStr: string) => T): T|undefined
+    {
+        let values = numbers.map(f);
+        return (values.length > 0 && values.every((value: T) => value === values[0]) ? values[0] : undefined);
+    }
+
+    // Hexadecimal digit count and case
+    let hexDigits = common(hexNumbers, (numberStr: string) => numberStr.length - 2);
+    if (hexDigits !== undefined)
+    {
+        result.hexDigits = hexDigits;
+    }
+    if (hexNumbers.length > 0)
+    {
+        result.hexUpper = hexNumbers.some((numberStr: string) => numberStr.search(/[A-F]/) >= 0);
+    }
+
+    // Suffix, eg. f or F
+    let floatSuffix = common(decimalNumbers, (numberStr: string) => numberStr.replace(/^[^fF]*/, ''));
+    if (floatSuffix !== undefined)
+    {
+        result.floatSuffix = floatSuffix;
+    }
+
+    // Notation and number of digits
+    let mantissas = decimalNumbers.map((numberStr: string) => numberStr.replace(/^-/, '').replace(/[eE].*$/, '').replace(/[fF]$/, ''));
+    let exponents = decimalNumbers.map((numberStr: string) => numberStr.replace(/^[^eE]*/, ''));
+    let scientific = exponents.filter((exponent: string) => exponent.length > 0).length;
+    if (scientific > 0 && scientific === exponents.length)
+    {
+        // Scientific, eg. 1.5e+3
+        result.notation = 'scientific';
+        result.digits = 0;
+        result.exponent = exponents[0][0];
+        let positive = exponents.filter((exponent: string) => exponent.search(/^[eE]-/) < 0);
+        if (positive.length > 0)
+        {
+            result.exponentSign = (positive[0][1] === '+');
+        }
+    }
+
+    // Digits after the decimal point, eg. 1.50, if every number has the same number and the same notation.
+    // Results are written with at least that many, but never rounded to fit.
+    let decimals = common(mantissas, (mantissa: string) => mantissa.indexOf('.') < 0 ? 0 : mantissa.length - mantissa.indexOf('.') - 1);
+    if (decimals !== undefined && decimals > 0 && (scientific === 0 || scientific === exponents.length))
+    {
+        result.digits = 0;
+        result.minDecimals = decimals;
+    }
+
+    // Spacing inside the delimiters and between components
+    let inner: Node|undefined = vectors[0];
+    if (inner !== undefined)
+    {
+        if (inner.items.length > 1)
+        {
+            result.separator = line.substring(inner.items[0].end, inner.items[1].begin);
+        }
+        if (inner.opening.length > 0)
+        {
+            let open = line.indexOf(inner.opening, inner.begin + inner.prefix.length);
+            let padding = line.substring(open + 1, inner.items[0].begin);
+            result.padding = (padding.trim().length === 0 ? padding : '');
+        }
+    }
+
+    return result;
+}
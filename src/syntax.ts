@@ -0,0 +1,128 @@
+// Comment and string syntax of a programming language, used to find the parts of a line of code that
+// contain text rather than code.
+export interface Syntax
+{
+    lineComments: string[];
+    blocks: [string, string][]; // Block comments and other regions that can span multiple lines
+    quotes: string[];
+}
+
+const cLike: Syntax = { lineComments: ['//'], blocks: [['/*', '*/']], quotes: ['"', '\'', '`'] };
+const python: Syntax = { lineComments: ['#'], blocks: [['"""', '"""'], ['\'\'\'', '\'\'\'']], quotes: ['"', '\''] };
+const hash: Syntax = { lineComments: ['#'], blocks: [], quotes: ['"', '\''] };
+const lua: Syntax = { lineComments: ['--'], blocks: [['--[[', ']]']], quotes: ['"', '\''] };
+const dashes: Syntax = { lineComments: ['--'], blocks: [['/*', '*/']], quotes: ['"', '\''] };
+
+// Syntax by language ID.  Languages that are not listed are assumed to be C-like.
+const syntaxes = new Map<string, Syntax>([
+    ['python', python],
+    ['shellscript', hash],
+    ['powershell', hash],
+    ['yaml', hash],
+    ['toml', hash],
+    ['ruby', hash],
+    ['perl', hash],
+    ['r', hash],
+    ['cmake', hash],
+    ['makefile', hash],
+    ['lua', lua],
+    ['sql', dashes]
+]);
+
+export function getSyntax(languageId: string): Syntax
+{
+    let syntax = syntaxes.get(languageId);
+    return (syntax === undefined ? cLike : syntax);
+}
+
+// Finds the comments and strings in a document one line at a time, remembering
+// whether a block comment is left open at the end of each line.
+export class Scanner
+{
+    constructor(syntax: Syntax)
+    {
+        this.syntax = syntax;
+    }
+
+    // Returns the [begin, end) ranges of the contents of comments and strings in the next line,
+    // not including their delimiters.  The ranges of comments alone are kept in comments.
+    scan(line: string): [number, number][]
+    {
+        let regions: [number, number][] = [];
+        this.comments = [];
+        let i = 0;
+        while (i < line.length)
+        {
+            // Continue a block from a previous line or position
+            if (this.block !== undefined)
+            {
+                let end = line.indexOf(this.block[1], i);
+                if (end < 0)
+                {
+                    regions.push([i, line.length]);
+                    this.comments.push([i, line.length]);
+                    break;
+                }
+                regions.push([i, end]);
+                this.comments.push([i, end]);
+                i = end + this.block[1].length;
+                this.block = undefined;
+                continue;
+            }
+
+            // Check for the beginning of a block, before line comments in case one begins with the other
+            let block = this.syntax.blocks.find((block: [string, string]) => line.startsWith(block[0], i));
+            if (block !== undefined)
+            {
+                this.block = block;
+                i += block[0].length;
+                continue;
+            }
+
+            // Line comments run to the end of the line
+            let comment = this.syntax.lineComments.find((comment: string) => line.startsWith(comment, i));
+            if (comment !== undefined)
+            {
+                regions.push([i + comment.length, line.length]);
+                this.comments.push([i + comment.length, line.length]);
+                break;
+            }
+
+            // Strings run to the next unescaped matching quote, or the end of the line
+            let quote = line[i];
+            if (this.syntax.quotes.indexOf(quote) >= 0)
+            {
+                let end = i + 1;
+                while (end < line.length && line[end] !== quote)
+                {
+                    end += (line[end] === '\\' ? 2 : 1);
+                }
+                end = Math.min(end, line.length);
+                regions.push([i + 1, end]);
+                i = end + 1;
+                continue;
+            }
+
+            i++;
+        }
+        return regions;
+    }
+
+    syntax: Syntax;
+    block: [string, string]|undefined = undefined;
+    comments: [number, number][] = [];
+}
+
+// Replaces everything in line outside of the regions with spaces, so that values in the regions
+// keep their positions in the line
+export function mask(line: string, regions: [number, number][]): string
+{
+    let masked = '';
+    let i = 0;
+    for (const region of regions)
+    {
+        masked += ' '.repeat(region[0] - i) + line.substring(region[0], region[1]);
+        i = region[1];
+    }
+    return masked + ' '.repeat(line.length - i);
+}
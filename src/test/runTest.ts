@@ -0,0 +1,22 @@
+import * as path from 'path';
+import { runTests } from 'vscode-test';
+
+async function main()
+{
+    try
+    {
+        // The folder containing the extension's package.json, and the test suite
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+        // Download VS Code, unzip it and run the tests
+        await runTests({ extensionDevelopmentPath, extensionTestsPath });
+    }
+    catch (err)
+    {
+        console.error('Failed to run tests');
+        process.exit(1);
+    }
+}
+
+main();
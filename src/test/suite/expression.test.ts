@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { evaluate, evaluateWorksheetLine } from '../../expression';
+import { Value } from '../../value';
+
+// Evaluates text and returns the components of its value, or its error
+function calc(text: string, stack: Value[] = [], variables = new Map<string, Value>()): number[]|string
+{
+    let evaluation = evaluate(text, stack, [{ prefix: 'float3', rows: 3 }], variables);
+    return (evaluation.value.valid ? Array.from(evaluation.value) : evaluation.error);
+}
+
+suite('Expression', () =>
+{
+    test('applies operators by precedence', () =>
+    {
+        assert.deepStrictEqual(calc('1 + 2 * 3'), [7]);
+        assert.deepStrictEqual(calc('(1 + 2) * 3'), [9]);
+        assert.deepStrictEqual(calc('2 ^ 3 ^ 2'), [512]);
+        assert.deepStrictEqual(calc('-2 ^ 2'), [-4]);
+        assert.deepStrictEqual(calc('10 - 4 - 3'), [3]);
+    });
+
+    test('groups lists into vectors and matrices', () =>
+    {
+        assert.deepStrictEqual(calc('(1, 0, 0) x (0, 1, 0)'), [0, 0, 1]);
+        assert.deepStrictEqual(calc('(1, 2) dot (3, 4)'), [11]);
+        assert.deepStrictEqual(calc('((1, 2), (3, 4))'), [1, 2, 3, 4]);
+    });
+
+    test('calls functions', () =>
+    {
+        assert.deepStrictEqual(calc('dot((1, 2), (3, 4))'), [11]);
+        assert.deepStrictEqual(calc('sqrt(1, 2)'), 'sqrt takes 1 argument');
+    });
+
+    test('pops the stack', () =>
+    {
+        let stack = [Value.scalar(1), Value.scalar(5)];
+        assert.deepStrictEqual(calc('pop * 2', stack), [10]);
+        assert.strictEqual(stack.length, 1);
+        assert.deepStrictEqual(calc('pop'), 'the stack is empty');
+    });
+
+    test('reports errors', () =>
+    {
+        assert.deepStrictEqual(calc('foo'), 'unknown name "foo"');
+        assert.deepStrictEqual(calc('1 2'), 'unexpected "2"');
+        assert.deepStrictEqual(calc('1 +'), 'unexpected end of expression');
+    });
+
+    test('keeps hexadecimal only without decimal numbers', () =>
+    {
+        assert.strictEqual(evaluate('0x10 + 0x1', []).hex, true);
+        assert.strictEqual(evaluate('0x10 + 1', []).hex, false);
+    });
+
+    test('evaluates worksheet lines', () =>
+    {
+        let line = evaluateWorksheetLine('n = 1 + 2 =', []);
+        assert.notStrictEqual(line, undefined);
+        assert.strictEqual(line!.equals, 10);
+        assert.deepStrictEqual(Array.from(line!.evaluation.value), [3]);
+
+        assert.strictEqual(evaluateWorksheetLine('1 + 2', []), undefined);
+        assert.strictEqual(evaluateWorksheetLine('x = =', []), undefined);
+    });
+
+    test('reads values with type prefixes', () =>
+    {
+        assert.deepStrictEqual(calc('float3(1, 2, 3) * 2'), [2, 4, 6]);
+    });
+
+    test('keeps integers exact', () =>
+    {
+        assert.deepStrictEqual(evaluate('0x10 + 0x1', []).value.exact, [BigInt(17)]);
+        assert.deepStrictEqual(evaluate('0xffffffffffffffff - 1', []).value.exact, [BigInt('18446744073709551614')]);
+    });
+
+    test('reads variables', () =>
+    {
+        assert.deepStrictEqual(calc('a + 1', [], new Map([['a', Value.scalar(2)]])), [3]);
+        assert.deepStrictEqual(calc('a + 1'), 'unknown name "a"');
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { LineCache } from '../../lineCache';
+import { getSyntax } from '../../syntax';
+
+suite('LineCache', () =>
+{
+    const lines = ['int x =', 'f("(1, 2) =")  // (1, 2) dot (3, 4) =', '/* 1 + 2 =', '*/'];
+    let read = (i: number) => lines[i];
+
+    test('reads worksheet lines only from comments in code', () =>
+    {
+        let cache = new LineCache(read, lines.length, getSyntax('cpp'), false, []);
+        assert.strictEqual(cache.comments(0).trim(), '');
+        assert.strictEqual(cache.comments(1).trim(), '(1, 2) dot (3, 4) =');
+        assert.strictEqual(cache.comments(2).trim(), '1 + 2 =');
+        assert.strictEqual(cache.text(1).trim().substr(0, 8), '(1, 2) =');
+
+        // Values are read everywhere, but worksheet lines are still only read from comments
+        let everywhere = new LineCache(read, lines.length, getSyntax('cpp'), true, []);
+        assert.strictEqual(everywhere.text(0), 'int x =');
+        assert.strictEqual(everywhere.comments(0).trim(), '');
+    });
+
+    test('reads worksheet lines from all of plain text', () =>
+    {
+        let cache = new LineCache(read, lines.length, undefined, true, []);
+        assert.strictEqual(cache.comments(0), 'int x =');
+    });
+});
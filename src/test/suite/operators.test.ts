@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as Op from '../../operators';
+import { Value } from '../../value';
+
+function integer(x: number): Value
+{
+    return Value.integers([BigInt(x)]);
+}
+
+// Checks that the components of a value are within epsilon of expected
+function assertClose(actual: Value, expected: number[], epsilon = 1e-9)
+{
+    assert.ok(actual.valid, 'invalid value: ' + actual.reason);
+    assert.strictEqual(actual.length, expected.length);
+    expected.forEach((x: number, i: number) => assert.ok(Math.abs(actual[i] - x) <= epsilon, actual[i] + ' != ' + x + ' at ' + i));
+}
+
+// Returns the named parts of a decomposition, failing if it failed
+function parts(decomposition: [string, Value][]|Value): Map<string, Value>
+{
+    assert.ok(!(decomposition instanceof Value), 'decomposition failed');
+    return new Map(decomposition as [string, Value][]);
+}
+
+suite('Operators', () =>
+{
+    test('shifts and rotates within the width', () =>
+    {
+        assert.deepStrictEqual(Op.shl(integer(1), integer(31), 32).exact, [BigInt(0x80000000)]);
+        assert.deepStrictEqual(Op.shl(integer(0xff), integer(4), 8).exact, [BigInt(0xf0)]);
+        assert.deepStrictEqual(Op.shl(integer(1), integer(32), 32).exact, [BigInt(0)]);
+        assert.deepStrictEqual(Op.shr(integer(0x80), integer(4), 8).exact, [BigInt(8)]);
+        assert.deepStrictEqual(Op.rotl(integer(0x81), integer(1), 8).exact, [BigInt(3)]);
+        assert.deepStrictEqual(Op.rotr(integer(0x81), integer(1), 8).exact, [BigInt(0xc0)]);
+        assert.strictEqual(Op.shl(integer(3), integer(-1), 32).reason, 'negative shift');
+    });
+
+    test('shifts by huge counts without making huge integers', () =>
+    {
+        assert.deepStrictEqual(Op.shl(integer(1), integer(0xffffffff), 32).exact, [BigInt(0)]);
+        assert.deepStrictEqual(Op.shr(integer(1), integer(0xffffffff), 32).exact, [BigInt(0)]);
+    });
+
+    test('applies bitwise and integer operators', () =>
+    {
+        assert.deepStrictEqual(Op.and(integer(0xf0), integer(0x3c)).exact, [BigInt(0x30)]);
+        assert.deepStrictEqual(Op.not(integer(0), 8).exact, [BigInt(0xff)]);
+        assert.deepStrictEqual(Op.popcount(integer(0xff), 8).exact, [BigInt(8)]);
+        assert.deepStrictEqual(Op.clz(integer(1), 32).exact, [BigInt(31)]);
+        assert.deepStrictEqual(Op.ctz(integer(8), 32).exact, [BigInt(3)]);
+        assert.strictEqual(Op.div(integer(7), integer(0)).reason, 'division by zero');
+    });
+
+    test('finds determinants, inverses and ranks', () =>
+    {
+        let m = new Value([4, 3, 6, 3], 2);
+        assertClose(Op.determinant(m), [-6]);
+        assertClose(Op.multiply(m, Op.inverse(m)), [1, 0, 0, 1]);
+        assertClose(Op.trace(m), [7]);
+
+        let singular = new Value([1, 2, 2, 4], 2);
+        assert.strictEqual(Op.inverse(singular).valid, false);
+        assertClose(Op.rank(singular), [1]);
+    });
+
+    test('reinterprets float bit patterns', () =>
+    {
+        assert.deepStrictEqual(Array.from(Op.asFloat32(integer(0x3f800000))), [1]);
+        assert.deepStrictEqual(Array.from(Op.asFloat16(integer(0xc000))), [-2]);
+        assert.ok(isNaN(Op.asFloat32(integer(0x7fc00000))[0]));
+        assert.deepStrictEqual(Op.floatBits32(Value.scalar(1)).exact, [BigInt(0x3f800000)]);
+        assert.deepStrictEqual(Op.floatBits16(Value.scalar(-2)).exact, [BigInt(0xc000)]);
+    });
+
+    test('rejects the zero quaternion', () =>
+    {
+        let zero = new Value([0, 0, 0, 0]);
+        assert.strictEqual(Op.toAxisAngle(zero).reason, 'zero quaternion');
+        assert.strictEqual(Op.angularDistance(zero, new Value([0, 0, 0, 1])).reason, 'zero quaternion');
+        assert.strictEqual(Op.quaternionInverse(zero).reason, 'zero quaternion');
+        assert.strictEqual(Op.rotateVector(zero, new Value([1, 0, 0])).reason, 'zero quaternion');
+        assertClose(Op.toAxisAngle(new Value([0, 0, 0, 1])), [1, 0, 0, 0]);
+    });
+
+    test('converts Euler angles', () =>
+    {
+        assertClose(Op.eulerToQuaternion(new Value([0, 0, Math.PI / 2]), 'xyz'), [0, 0, Math.SQRT1_2, Math.SQRT1_2]);
+        Op.eulerOrders.forEach((order: string) =>
+        {
+            let q = Op.eulerToQuaternion(new Value([0.1, 0.2, 0.3]), order);
+            assertClose(Op.toEuler(q, order), [0.1, 0.2, 0.3]);
+        });
+        assert.strictEqual(Op.eulerToQuaternion(new Value([0, 0, 0]), 'xxy').reason, 'unknown order xxy');
+    });
+
+    test('limits histogram bins', () =>
+    {
+        let x = new Value([1, 2, 3, 4]);
+        assert.deepStrictEqual(Array.from(Op.histogram(x, Value.scalar(2))), [2, 2]);
+        assert.strictEqual(Op.histogram(x, Value.scalar(1e9)).reason, 'more bins than values');
+        assert.strictEqual(Op.histogram(x, Value.scalar(0.5)).reason, 'bins must be a positive integer');
+    });
+
+    test('solves square and over-determined systems', () =>
+    {
+        let square = Op.solveSystem(new Value([4, 3, 6, 3], 2), new Value([10, 12]));
+        assertClose(square.x, [7, -3]);
+        assert.ok(square.residual < 1e-12);
+
+        // Least squares fit of y = c + m x through (0, 1), (1, 2), (2, 3)
+        let fit = Op.solveSystem(new Value([1, 1, 1, 0, 1, 2], 3), new Value([1, 2, 3]));
+        assertClose(fit.x, [1, 1]);
+
+        assert.strictEqual(Op.solveSystem(new Value([1, 2, 2, 4], 2), new Value([1, 2])).x.reason, 'singular');
+        assert.strictEqual(Op.solveSystem(new Value([1, 2, 3, 4, 5, 6], 2), new Value([1, 2])).x.reason, 'under-determined, rows 2 < cols 3');
+    });
+
+    test('decomposes matrices', () =>
+    {
+        let m = new Value([4, 3, 6, 3], 2);
+        let lu = parts(Op.luDecomposition(m));
+        assertClose(Op.multiply(lu.get('P')!, m), Array.from(Op.multiply(lu.get('L')!, lu.get('U')!)));
+
+        let qr = parts(Op.qrDecomposition(m));
+        assertClose(Op.multiply(qr.get('Q')!, qr.get('R')!), Array.from(m));
+
+        let spd = new Value([4, 2, 2, 3], 2);
+        let l = parts(Op.choleskyDecomposition(spd)).get('L')!;
+        assertClose(Op.multiply(l, Op.transpose(l)), Array.from(spd));
+        assert.strictEqual((Op.choleskyDecomposition(new Value([1, 2, 2, 1], 2)) as Value).reason, 'not positive definite');
+
+        assertClose(parts(Op.eigenDecomposition(new Value([2, 1, 1, 2], 2))).get('eigenvalues')!, [3, 1]);
+        assertClose(parts(Op.singularValueDecomposition(new Value([3, 0, 0, -2], 2))).get('S')!, [3, 2]);
+        assert.strictEqual((Op.luDecomposition(new Value([1, 2, 3])) as Value).reason, 'not a square matrix');
+    });
+
+    test('reduces large datasets', () =>
+    {
+        let x = new Value(Array.from({ length: 200000 }, (value: unknown, i: number) => i));
+        assert.deepStrictEqual(Array.from(Op.min(x)), [0]);
+        assert.deepStrictEqual(Array.from(Op.max(x)), [199999]);
+        assert.deepStrictEqual(Array.from(Op.histogram(x, Value.scalar(2))), [100000, 100000]);
+    });
+
+    test('builds look-at transforms with any up direction', () =>
+    {
+        // Looking down -z from (0, 0, 5) with y up is a translation
+        let view = Op.lookAt(new Value([0, 0, 5]), new Value([0, 0, 0]), new Value([0, 1, 0]));
+        assertClose(Op.transformPoint(view, new Value([0, 0, 0])), [0, 0, -5]);
+
+        // Looking along y needs another up direction
+        let down = new Value([0, 10, 0]);
+        assert.strictEqual(Op.lookAt(down, new Value([0, 0, 0]), new Value([0, 1, 0])).valid, false);
+        assertClose(Op.transformPoint(Op.lookAt(down, new Value([0, 0, 0]), new Value([0, 0, 1])), new Value([0, 0, 0])), [0, 0, -10]);
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as Parser from '../../parser';
+import { defaultFormat } from '../../value';
+
+const typePrefixes: Parser.TypePrefix[] = [
+    { prefix: 'float3', rows: 3 },
+    { prefix: 'float2x2', rows: 2, cols: 2, order: 'row' }
+];
+
+// Parses line and converts it to a value
+function read(line: string)
+{
+    return Parser.toValue(line, Parser.parse(line, typePrefixes));
+}
+
+suite('Parser', () =>
+{
+    test('reads vectors and matrices', () =>
+    {
+        let vector = read('(1, 2, 3)');
+        assert.deepStrictEqual(Array.from(vector.value), [1, 2, 3]);
+        assert.strictEqual(vector.value.dimensions, 1);
+
+        let matrix = read('((1, 2), (3, 4))');
+        assert.deepStrictEqual(Array.from(matrix.value), [1, 2, 3, 4]);
+        assert.strictEqual(matrix.value.rows, 2);
+    });
+
+    test('reads type prefixes with their size and order', () =>
+    {
+        assert.deepStrictEqual(Array.from(read('float3(1, 2, 3)').value), [1, 2, 3]);
+
+        // Row-major elements are rearranged into columns
+        let matrix = read('float2x2(1, 2, 3, 4)').value;
+        assert.deepStrictEqual(Array.from(matrix), [1, 3, 2, 4]);
+        assert.strictEqual(matrix.rows, 2);
+    });
+
+    test('finds the format of numbers', () =>
+    {
+        let line = '(1.50, 2.25)';
+        assert.strictEqual(Parser.formatOf(line, Parser.parse(line), defaultFormat).minDecimals, 2);
+        line = '(1.5f, 2f)';
+        assert.strictEqual(Parser.formatOf(line, Parser.parse(line), defaultFormat).floatSuffix, 'f');
+    });
+
+    test('reads integers exactly', () =>
+    {
+        assert.strictEqual(Parser.readNumber('0xffffffffffffffff').exact, BigInt('18446744073709551615'));
+        assert.strictEqual(Parser.readNumber('-12').exact, BigInt(-12));
+        assert.strictEqual(Parser.readNumber('1.5').exact, undefined);
+        assert.deepStrictEqual(read('(0x1, 0xffffffffffffffff)').value.exact, [BigInt(1), BigInt('18446744073709551615')]);
+    });
+
+    test('matches numbers', () =>
+    {
+        assert.strictEqual(Parser.matchNumber('0x1F, 2'), '0x1F');
+        assert.strictEqual(Parser.matchNumber('0b101)'), '0b101');
+        assert.strictEqual(Parser.matchNumber('1.5f)'), '1.5f');
+        assert.strictEqual(Parser.matchNumber('.5e3'), '.5e3');
+        assert.strictEqual(Parser.matchNumber('0b102'), null);
+        assert.strictEqual(Parser.matchNumber('x1'), null);
+    });
+
+    test('reports hexadecimal and binary numbers', () =>
+    {
+        let hex = read('(0x1, 0x2)');
+        assert.strictEqual(hex.hex, true);
+        assert.strictEqual(hex.binary, false);
+
+        let binary = read('(0b1, 0b10)');
+        assert.strictEqual(binary.hex, true);
+        assert.strictEqual(binary.binary, true);
+        assert.deepStrictEqual(binary.value.exact, [BigInt(1), BigInt(2)]);
+
+        let mixed = read('(0x1, 2)');
+        assert.strictEqual(mixed.hex, false);
+        assert.strictEqual(mixed.binary, false);
+
+        // Binary numbers say nothing about how decimal numbers are written
+        let line = '(0b1, 0b10)';
+        assert.deepStrictEqual(Parser.formatOf(line, Parser.parse(line), defaultFormat), defaultFormat);
+    });
+
+    test('reads lists as datasets', () =>
+    {
+        let scalars = Parser.toDataset('1, 2, 3', Parser.parse('1, 2, 3'));
+        assert.deepStrictEqual(Array.from(scalars.value), [1, 2, 3]);
+
+        let vectors = Parser.toDataset('(1, 2) (3, 4)', Parser.parse('(1, 2) (3, 4)'));
+        assert.deepStrictEqual(Array.from(vectors.value), [1, 2, 3, 4]);
+        assert.strictEqual(vectors.value.rows, 2);
+
+        let mixed = Parser.toDataset('1 (2, 3)', Parser.parse('1 (2, 3)'));
+        assert.strictEqual(mixed.value.valid, false);
+    });
+});
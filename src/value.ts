@@ -1,13 +1,124 @@
 export enum ValueMode
 {
     Decimal,
-    Hexadecimal
+    Hexadecimal,
+    Binary
+}
+
+// Options for printing values.  Decimal numbers are printed in 'significant', 'fixed' or 'scientific' notation, with digits
+// being the number of significant digits, or the number of digits after the decimal point in fixed notation.  If digits is 0,
+// as many digits are printed as are needed to represent each number exactly, but at least minDecimals digits after the decimal
+// point, eg. 2.0 rather than 2.  floatSuffix is appended to decimal numbers,
+// adding a decimal point if needed, eg. 1.0f.  Exponents are written with the exponent character, and with a + if positive
+// and exponentSign is set.  Hexadecimal numbers are padded to hexDigits digits.  brackets gives the opening and closing
+// delimiters of vectors and matrices, padding is written inside them, and separator is written between components.
+// Integers are bits wide: negative hexadecimal numbers are written in two's complement, and decimal integers are
+// read as two's complement if signedness is 'signed' or written as their unsigned equivalent if it is 'unsigned'.
+export interface Format
+{
+    notation: string;
+    digits: number;
+    minDecimals: number;
+    floatSuffix: string;
+    exponent: string;
+    exponentSign: boolean;
+    hexDigits: number;
+    hexUpper: boolean;
+    brackets: string;
+    padding: string;
+    separator: string;
+    bits: number;
+    signedness: string;
+}
+
+export const defaultFormat: Format = {
+    notation: 'significant',
+    digits: 0,
+    minDecimals: 0,
+    floatSuffix: '',
+    exponent: 'e',
+    exponentSign: true,
+    hexDigits: 8,
+    hexUpper: false,
+    brackets: '()',
+    padding: '',
+    separator: ', ',
+    bits: 32,
+    signedness: ''
+};
+
+// Returns format changed by an option, or undefined if the option is not recognized.  Options are:
+// shortest, digits N, fixed N, scientific [N], f suffix, no f suffix, brackets () or [] or {}, separator "S"
+export function applyFormatOption(format: Format, option: string): Format|undefined
+{
+    let result: Format = { ...format };
+    let match: RegExpMatchArray|null;
+    option = option.trim();
+    if (option === 'shortest')
+    {
+        result.notation = 'significant';
+        result.digits = 0;
+    }
+    else if ((match = option.match(/^(digits|fixed|scientific)\s*(\d*)$/)) !== null)
+    {
+        if (match[2].length === 0 && match[1] !== 'scientific')
+        {
+            return undefined;
+        }
+        result.notation = (match[1] === 'digits' ? 'significant' : match[1]);
+        result.digits = Math.min(parseInt('0' + match[2]), 100);
+    }
+    else if (option === 'f suffix' || option === 'no f suffix')
+    {
+        result.floatSuffix = (option === 'f suffix' ? 'f' : '');
+    }
+    else if ((match = option.match(/^brackets\s*(\(\)|\[\]|\{\})$/)) !== null)
+    {
+        result.brackets = match[1];
+    }
+    else if ((match = option.match(/^separator\s*"(.*)"$/)) !== null)
+    {
+        result.separator = match[1];
+    }
+    else
+    {
+        return undefined;
+    }
+    return result;
+}
+
+// How a vector or matrix is written, possibly in code with a type prefix, eg. float3(1, 2, 3) or np.array([[1, 2], [3, 4]]).
+// prefix and suffix are the text outside of the open and close delimiters.  rows and cols are the size the type
+// requires, if any: vector types have only rows.  Matrix elements can be listed row by row, and flat matrices list
+// their elements without grouping them, otherwise item describes how each row or column is written and separator what is
+// written between them.  Vectors and matrices written without a type prefix have an empty prefix and no required size.
+export interface Constructor
+{
+    prefix: string;
+    suffix: string;
+    open: string;
+    close: string;
+    rows?: number;
+    cols?: number;
+    rowMajor: boolean;
+    flat: boolean;
+    item?: Constructor;
+    separator?: string;
+}
+
+// A value in a form that can be stored as JSON, eg. in the workspace state.  Components are strings so that NaN,
+// infinities and exact integers are kept.
+export interface StoredValue
+{
+    x: string[];
+    rows: number;
+    exact?: string[];
 }
 
 // Scalar, vector, or matrix. Matrices are stored in column-major order
 export class Value extends Array<number>
 {
-    constructor(x: number[] = [0], rows: number = x.length)
+    constructor(x: number[] = [0], rows: number = x.length, exact?: bigint[])
     {
         super(x.length);
         for (let i = 0; i < x.length; i++)
@@ -15,6 +126,7 @@ export class Value extends Array<number>
             this[i] = x[i];
         }
         this.rows = rows;
+        this.exact = exact;
     }
 
     static scalar(x: number) : Value
@@ -22,16 +134,55 @@ export class Value extends Array<number>
         return new Value([x]);
     }
 
+    // Creates a Value of integers that keeps their exact values, even beyond the precision of a number
+    static integers(x: bigint[], rows: number = x.length) : Value
+    {
+        return new Value(x.map((x: bigint) => Number(x)), rows, x);
+    }
+
     static get invalid() : Value
     {
         return new Value([], 0);
     }
 
+    // Returns an invalid value that records why an operation failed, eg. 'cols 3 != rows 4'
+    static error(reason: string) : Value
+    {
+        let value = Value.invalid;
+        value.reason = reason;
+        return value;
+    }
+
+    // Converts a value back from toStored
+    static fromStored(stored: StoredValue) : Value
+    {
+        let exact = (stored.exact === undefined ? undefined : stored.exact.map((x: string) => BigInt(x)));
+        return new Value(stored.x.map((x: string) => Number(x)), stored.rows, exact);
+    }
+
+    toStored(): StoredValue
+    {
+        let exact = (this.exact === undefined ? undefined : this.exact.map((x: bigint) => x.toString()));
+        return { x: Array.from(this, (x: number) => String(x)), rows: this.rows, exact: exact };
+    }
+
     get valid()
     {
         return this.rows > 0;
     }
 
+    // Describes the type and size of the value, eg. scalar, vector3 or matrix3x4
+    get shape(): string
+    {
+        switch (this.valid ? this.dimensions : -1)
+        {
+            case 0: return 'scalar';
+            case 1: return 'vector' + this.rows;
+            case 2: return 'matrix' + this.rows + 'x' + this.cols;
+            default: return 'invalid';
+        }
+    }
+
     get dimensions(): number
     {
         if (this.length === 1)
@@ -56,7 +207,20 @@ export class Value extends Array<number>
 
     col(i: number): Value
     {
-        return new Value(this.slice(i * this.rows, (i + 1) * this.rows));
+        let exact = (this.exact === undefined ? undefined : this.exact.slice(i * this.rows, (i + 1) * this.rows));
+        return new Value(this.slice(i * this.rows, (i + 1) * this.rows), this.rows, exact);
+    }
+
+    row(i: number): Value
+    {
+        let x: number[] = [];
+        let exact: bigint[] = [];
+        for (let j = 0; j < this.cols; j++)
+        {
+            x.push(this.entry(i, j));
+            exact.push(this.exact === undefined ? BigInt(0) : this.exact[this.index(i, j)]);
+        }
+        return new Value(x, x.length, this.exact === undefined ? undefined : exact);
     }
 
     index(row: number, col: number)
@@ -69,11 +233,32 @@ export class Value extends Array<number>
         return this[this.index(row, col)];
     }
 
-    isIntegral(): boolean
+    // Returns component i as an exact integer.  The component must be an integer.
+    integer(i: number): bigint
     {
+        return (this.exact === undefined ? BigInt(this[i]) : this.exact[i]);
+    }
+
+    // Returns true if every component is an integer, of any size
+    isInteger(): boolean
+    {
+        return this.exact !== undefined || this.every((x: number) => Number.isInteger(x));
+    }
+
+    // Returns true if every component is an integer that fits in the given number of bits,
+    // either as a signed or as an unsigned integer
+    isIntegral(bits: number = 32): boolean
+    {
+        if (!this.isInteger())
+        {
+            return false;
+        }
+        let min = -(BigInt(1) << BigInt(bits - 1));
+        let max = BigInt(1) << BigInt(bits);
         for (let i = 0; i < this.length; i++)
         {
-            if (!Number.isInteger(this[i]) || this[i] < 0 || this[i] > 0xffffffff)
+            let x = this.integer(i);
+            if (x < min || x >= max)
             {
                 return false;
             }
@@ -81,58 +266,208 @@ export class Value extends Array<number>
         return true;
     }
     
-    // Print a Value either as hex or dec
-    stringify(mode: ValueMode): string
+    // Returns true if this has the size required by a constructor
+    fits(constructor: Constructor): boolean
     {
-        function stringifyScalar(x:number, mode:ValueMode)
+        if (constructor.rows === undefined)
+        {
+            return this.dimensions === 1 || this.dimensions === 2;
+        }
+        if (constructor.cols === undefined)
+        {
+            return this.dimensions === 1 && this.rows === constructor.rows;
+        }
+        return this.dimensions === 2 && this.rows === constructor.rows && this.cols === constructor.cols;
+    }
+
+    // Print a Value as hex, binary or dec in the given format, written with the constructor if given and the value fits it
+    stringify(mode: ValueMode, format: Format = defaultFormat, constructor?: Constructor): string
+    {
+        // Integers are written exactly unless rounded to a number of digits
+        function stringifyDecimal(x:number, exact?:bigint)
+        {
+            let str: string;
+            if (exact !== undefined && format.notation === 'significant' && format.digits === 0)
+            {
+                str = exact.toString();
+                x = Number(exact);
+            }
+            else
+            {
+                x = (exact !== undefined ? Number(exact) : x);
+                switch (format.notation)
+                {
+                    case 'fixed': str = x.toFixed(format.digits); break;
+                    case 'scientific': str = (format.digits > 0 ? x.toExponential(format.digits - 1) : x.toExponential()); break;
+                    default: str = (format.digits > 0 ? Number(x.toPrecision(format.digits)).toString() : x.toString()); break;
+                }
+            }
+            if (format.digits === 0 && format.minDecimals > 0)
+            {
+                str = str.replace(/^(-?\d+)(\.\d*)?(e.*)?$/, (match: string, whole: string, decimals?: string, exponent?: string) =>
+                {
+                    decimals = (decimals === undefined ? '.' : decimals);
+                    while (decimals.length <= format.minDecimals)
+                    {
+                        decimals += '0';
+                    }
+                    return whole + decimals + (exponent === undefined ? '' : exponent);
+                });
+            }
+            str = str.replace(/e([+-])(\d+)$/, (match: string, sign: string, exponent: string) =>
+                format.exponent + (sign === '+' && !format.exponentSign ? '' : sign) + exponent);
+            if (format.floatSuffix.length > 0 && isFinite(x))
+            {
+                if (str.search(/[.eE]/) < 0)
+                {
+                    str += '.0';
+                }
+                str += format.floatSuffix;
+            }
+            return str;
+        }
+
+        let range = BigInt(1) << BigInt(format.bits);
+        function stringifyHex(x:bigint)
+        {
+            let str = (x < 0 ? x + range : x).toString(16);
+            while (str.length < format.hexDigits)
+            {
+                str = '0' + str;
+            }
+            return '0x' + (format.hexUpper ? str.toUpperCase() : str);
+        }
+
+        // Binary numbers are padded to the full width
+        function stringifyBinary(x:bigint)
+        {
+            let str = (x < 0 ? x + range : x).toString(2);
+            while (str.length < format.bits)
+            {
+                str = '0' + str;
+            }
+            return '0b' + str;
+        }
+
+        // Reads an integer as signed or unsigned
+        function reinterpret(x:bigint)
+        {
+            switch (format.signedness)
+            {
+                case 'signed': return (x >= range / BigInt(2) ? x - range : x);
+                case 'unsigned': return (x < 0 ? x + range : x);
+                default: return x;
+            }
+        }
+
+        let integral = this.isIntegral(format.bits);
+        function stringifyScalar(v:Value, i:number, mode:ValueMode)
         {
             switch (mode)
             {
-                case ValueMode.Decimal: return x.toString();
-                case ValueMode.Hexadecimal: return '0x' + ('00000000' + x.toString(16)).substr(-8);
+                case ValueMode.Decimal: return stringifyDecimal(v[i], integral && format.signedness !== '' ? reinterpret(v.integer(i)) : (v.exact === undefined ? undefined : v.exact[i]));
+                case ValueMode.Hexadecimal: return stringifyHex(v.integer(i));
+                case ValueMode.Binary: return stringifyBinary(v.integer(i));
             }
         }
 
-        function stringifyVector(x:number[], mode:ValueMode)
+        function stringifyVector(x:Value, mode:ValueMode)
         {
-            let vector = '(';
+            let vector = format.brackets[0] + format.padding;
             for (let i = 0; i < x.length; i++)
             {
-                vector += stringifyScalar(x[i], mode);
+                vector += stringifyScalar(x, i, mode);
                 if (i < x.length - 1)
                 {
-                    vector += ', ';
+                    vector += format.separator;
                 }
             }
-            return vector + ')';
+            return vector + format.padding + format.brackets[1];
         }
 
-        // Display as decimal if this cannot be hex32
-        if (mode === ValueMode.Hexadecimal && !this.isIntegral())
+        // Display as decimal if this cannot be hex or binary
+        if (mode !== ValueMode.Decimal && !integral)
         {
             mode = ValueMode.Decimal;
         }
 
+        if (constructor !== undefined && this.fits(constructor))
+        {
+            let list = (items: string[], open: string, close: string, separator: string) =>
+                open + format.padding + items.join(separator) + format.padding + close;
+            let scalars = (v: Value) => [...Array(v.length).keys()].map((i: number) => stringifyScalar(v, i, mode));
+            let body: string;
+            if (this.dimensions === 1)
+            {
+                body = list(scalars(this), constructor.open, constructor.close, format.separator);
+            }
+            else
+            {
+                let vectors: Value[] = [];
+                for (let i = 0; i < (constructor.rowMajor ? this.rows : this.cols); i++)
+                {
+                    vectors.push(constructor.rowMajor ? this.row(i) : this.col(i));
+                }
+                let separator = (constructor.separator !== undefined ? constructor.separator : format.separator);
+                if (constructor.flat)
+                {
+                    let x: string[] = [];
+                    vectors.forEach((v: Value) => x.push(...scalars(v)));
+                    body = list(x, constructor.open, constructor.close, separator);
+                }
+                else
+                {
+                    // Rows or columns are written like the constructor's items, or with its delimiters if it was a vector
+                    let item: Constructor = (constructor.item !== undefined ? constructor.item : { ...constructor, prefix: '', suffix: '' });
+                    let items = vectors.map((v: Value) => item.prefix + list(scalars(v), item.open, item.close, format.separator) + item.suffix);
+                    body = list(items, constructor.open, constructor.close, separator);
+                }
+            }
+            return constructor.prefix + body + constructor.suffix;
+        }
+
         switch(this.dimensions)
         {
-            case 0: return stringifyScalar(this[0], mode);
+            case 0: return stringifyScalar(this, 0, mode);
             case 1: return stringifyVector(this, mode);
             case 2:
             {
-                let matrix = '(';
+                let matrix = format.brackets[0] + format.padding;
                 for (let i = 0; i < this.cols; i++)
                 {
                     matrix += stringifyVector(this.col(i), mode);
                     if (i < this.cols - 1)
                     {
-                        matrix += ', ';
+                        matrix += format.separator;
                     }
                 }
-                return matrix + ')';
+                return matrix + format.padding + format.brackets[1];
             }
             default: return 'error';
         }
     }
 
     rows: number;
-}
\ No newline at end of file
+
+    // Exact values of the components if they are integers that were read or calculated exactly, otherwise undefined
+    exact: bigint[]|undefined;
+
+    // Why an operation gave this value if it is invalid, or '' if the reason is unknown
+    reason: string = '';
+}
+
+// Returns format with its integer width doubled as many times as needed for value to fit, eg. to 64 bits for a 64-bit
+// hexadecimal number, padding hexadecimal numbers to the new width.  Returns format if value is not an integer that fits.
+export function widenFormat(format: Format, value: Value): Format
+{
+    let bits = format.bits;
+    while (!value.isIntegral(bits))
+    {
+        if (bits >= 1024)
+        {
+            return format;
+        }
+        bits *= 2;
+    }
+    return (bits === format.bits ? format : { ...format, bits: bits, hexDigits: Math.max(format.hexDigits, bits / 4) });
+}